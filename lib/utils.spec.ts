@@ -1,6 +1,6 @@
-import { beforeEach, describe, expect, it, test } from '@jest/globals';
-import { countByWithMap, countByWithObj, cut, extractKeysFrom, groupByWithMap, groupByWithObj, justOnce, toType } from './utils';
-import { produce } from 'immer';
+import { afterEach, beforeEach, describe, expect, it, jest, test } from '@jest/globals';
+import { addToMapIfKeyAbsent, addToObjIfKeyAbsent, after, aggregateBy, allocate, applyJsonPatch, arithmeticMean, before, BiMap, compose, computeIfAbsent, computeIfPresent, configure, copyOnWrite, createObjFrom, copyOnWriteWithPatches, countOf, createHistory, debounce, Decimal, countByWithMap, countByWithObj, cut, cutBarrier, deepClone, deepDiff, deepEqual, deepMerge, deleteIn, deserialize, extent, extractKeysFrom, firstOf, flow, flowAsync, formatBytes, formatCompact, formatCurrency, formatNumber, formatPercent, fromJsonPatch, getConfig, getIn, getKeysFromValue, groupByNested, groupByWithMap, groupByWithObj, hash, hasIn, indexBy, invert, jsonReplacer, jsonReviver, justOnce, keyBy, lastOf, lazy, lazyRange, mapToObj, max, maxBy, maxOf, mean, meanOf, median, memoize, merge, min, minBy, minOf, mode, objToMap, omit, onlyN, parseLocaleNumber, pipe, pick, pipeAsync, pluck, pool, percentiles, PipeStepError, quantile, range, rateLimit, registerSerializable, round, s, SchemaError, registerSwapCodec, renameKeys, runningStats, serialize, setIn, splitEvenly, StructuralMap, StructuralSet, stddev, structuralKey, sum, sumOf, throttle, toJsonPatch, toType, typeOf, unzipToObj, updateIn, upsert, upsertAll, variance, weightedMean, withArraySwap, withArraySwapAsync } from './utils';
+import { applyPatches, immerable, produce } from 'immer';
 
 //NOTES: use toStrictEqual to compare object values, not toMatchObject
 //toStrictEqual do not always check the types on the keys  of Map ( check groupByWithMap_onObj: not able to reproduce simply)? 
@@ -43,6 +43,122 @@ describe("immer produce function interesting gotchas", () => {
   })
 })
 
+describe("functional paradigm function tests", () => {
+  describe("pipe()", () => {
+    afterEach(() => { jest.restoreAllMocks() })
+
+    it("applies the functions in order, with the piped value as first argument", () => {
+      //setup
+      const multiply = (x: number, y: number) => x * y
+      const toStr = (x: number) => `value: ${x}`
+      //apply
+      const result = pipe(2).to(multiply, 3).to(toStr).value
+      //test
+      expect(result).toBe("value: 6")
+    })
+
+    it("in traced mode, records the function name, arguments, input and output of each step", () => {
+      //setup
+      const multiply = (x: number, y: number) => x * y
+      //apply
+      const piped = pipe(2, { trace: true }).to(multiply, 3).to(String)
+      //test
+      expect(piped.value).toBe("6")
+      expect(piped.trace).toStrictEqual([
+        { stepIdx: 0, fnName: "multiply", args: [3], input: 2, output: 6 },
+        { stepIdx: 1, fnName: "String", args: [], input: 6, output: "6" }
+      ])
+    })
+
+    it("in traced mode, rethrows an error carrying the step index and the input of the failing step", () => {
+      //setup
+      const original = new Error("cannot parse")
+      const failingParse = (str: string) => { throw original }
+      //apply
+      let thrown;
+      try {
+        pipe("  a ", { trace: true }).to((str) => str.trim()).to(failingParse)
+      } catch (error) {
+        thrown = error
+      }
+      //test
+      expect(thrown).toBeInstanceOf(PipeStepError)
+      expect(thrown.stepIdx).toBe(1)
+      expect(thrown.fnName).toBe("failingParse")
+      expect(thrown.input).toBe("a")
+      expect(thrown.cause).toBe(original)
+      expect(thrown.trace).toHaveLength(1)
+      expect(thrown.message).toBe("pipe step 1 (failingParse) failed: cannot parse")
+    })
+
+    it("in traced mode, prints the trace with the `p` debug helper", () => {
+      //setup
+      const dirSpy = jest.spyOn(console, "dir").mockImplementation(() => { })
+      const logSpy = jest.spyOn(console, "log").mockImplementation(() => { })
+      const piped = pipe(1, { trace: true }).to((x) => x + 1)
+      //apply
+      piped.printTrace("my pipe")
+      //test
+      expect(logSpy).toHaveBeenCalledWith("🔔🚀 ~ my pipe")
+      expect(dirSpy).toHaveBeenCalledWith(piped.trace, { depth: 99 })
+    })
+  })
+
+  describe("pipeAsync()", () => {
+    it("chains sync and async functions, `.value` being a Promise of the final value", async () => {
+      //setup
+      const fetchDouble = (x: number) => Promise.resolve(x * 2)
+      const add = (x: number, y: number) => x + y
+      //apply
+      const result = pipeAsync(Promise.resolve(2)).to(fetchDouble).to(add, 1).value
+      //test
+      expect(result).toBeInstanceOf(Promise)
+      await expect(result).resolves.toBe(5)
+    })
+
+    it("rejects `.value` and skips the next functions when a function throws", async () => {
+      //setup
+      const nextFn = jest.fn((x) => x)
+      //apply
+      const result = pipeAsync(1).to(() => { throw new Error("boom") }).to(nextFn).value
+      //test
+      await expect(result).rejects.toThrow("boom")
+      expect(nextFn).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("flow() and compose()", () => {
+    it("flow applies the functions from left to right, the first one taking several arguments", () => {
+      const addThenStringify = flow((x: number, y: number) => x + y, (x) => x * 10, String)
+      expect(addThenStringify(1, 2)).toBe("30")
+    })
+
+    it("compose applies the functions from right to left", () => {
+      const inc = (x: number) => x + 1
+      const double = (x: number) => x * 2
+      expect(compose(inc, double)(5)).toBe(11)
+      expect(flow(inc, double)(5)).toBe(12)
+    })
+
+    it("returns the identity function when no function is passed", () => {
+      expect(flow()(3)).toBe(3)
+      expect(compose()(3)).toBe(3)
+    })
+  })
+
+  describe("flowAsync()", () => {
+    it("returns a function returning a Promise, each function receiving the resolved previous value", async () => {
+      const getDouble = flowAsync((x: number) => Promise.resolve(x * 2), (x) => x + 1)
+      await expect(getDouble(2)).resolves.toBe(5)
+    })
+
+    it("rejects when the first function throws synchronously", async () => {
+      const throwing = flowAsync((x: number) => { throw new Error("sync boom") })
+      await expect(throwing(1)).rejects.toThrow("sync boom")
+    })
+  })
+})
+
 describe("concurrency primitives function tests", () => {
   beforeEach(() => {
   });
@@ -76,8 +192,402 @@ describe("concurrency primitives function tests", () => {
       expect(addJustOnce(1, 2)).toBe(add(1, 2));
       expect(addJustOnce(1, 2)).toBe(undefined);
     })
+
+    it("with `memoize`, returns the value of the first call on subsequent calls", () => {
+      //setup
+      const add = jest.fn((x: number, y: number) => x + y)
+      const addJustOnce = justOnce(add, { memoize: true })
+      //apply and test
+      expect(addJustOnce(1, 2)).toBe(3)
+      expect(addJustOnce(5, 5)).toBe(3)
+      expect(add).toHaveBeenCalledTimes(1)
+    })
+
+    it("with `memoize`, concurrent callers of an async function share the same Promise", async () => {
+      //setup
+      const init = jest.fn(() => Promise.resolve("connected"))
+      const initOnce = justOnce(init, { memoize: true })
+      //apply
+      const [promise1, promise2] = [initOnce(), initOnce()]
+      //test
+      expect(promise1).toBe(promise2)
+      await expect(promise2).resolves.toBe("connected")
+      expect(init).toHaveBeenCalledTimes(1)
+    })
+
+    it("with `retryOnReject`, calls the function again after a rejected first attempt", async () => {
+      //setup
+      const init = jest.fn<() => Promise<string>>()
+        .mockReturnValueOnce(Promise.reject(new Error("network down")))
+        .mockReturnValueOnce(Promise.resolve("connected"))
+      const initOnce = justOnce(init, { memoize: true, retryOnReject: true })
+      //apply and test
+      await expect(initOnce()).rejects.toThrow("network down")
+      await expect(initOnce()).resolves.toBe("connected")
+      await expect(initOnce()).resolves.toBe("connected")
+      expect(init).toHaveBeenCalledTimes(2)
+    })
+
+    it("`reset()` allows the function to be applied again", () => {
+      //setup
+      const fn = jest.fn(() => "called")
+      const fnOnce = justOnce(fn)
+      //apply
+      fnOnce()
+      fnOnce.reset()
+      //test
+      expect(fnOnce()).toBe("called")
+      expect(fn).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe("onlyN(), after() and before()", () => {
+    it("onlyN applies the function for the first n calls only", () => {
+      const inc = jest.fn((x: number) => x + 1)
+      const incTwice = onlyN(2, inc)
+      expect([incTwice(1), incTwice(2), incTwice(3)]).toStrictEqual([2, 3, undefined])
+      expect(inc).toHaveBeenCalledTimes(2)
+    })
+
+    it("after applies the function from the n-th call", () => {
+      const fn = jest.fn(() => "called")
+      const fnAfter3 = after(3, fn)
+      expect([fnAfter3(), fnAfter3(), fnAfter3(), fnAfter3()]).toStrictEqual([undefined, undefined, "called", "called"])
+      fnAfter3.reset()
+      expect(fnAfter3()).toBe(undefined)
+    })
+
+    it("before applies the function while called less than n times, then returns the last value", () => {
+      const inc = jest.fn((x: number) => x + 1)
+      const incBefore3 = before(3, inc)
+      expect([incBefore3(1), incBefore3(2), incBefore3(3)]).toStrictEqual([2, 3, 3])
+      expect(inc).toHaveBeenCalledTimes(2)
+    })
+  })
+
+
+  describe("debounce()", () => {
+    beforeEach(() => { jest.useFakeTimers() })
+    afterEach(() => { jest.useRealTimers() })
+
+    it("calls the function once, with the last arguments, `wait` ms after the last call", () => {
+      //setup
+      const fn = jest.fn()
+      const debounced = debounce(fn, 100)
+      //apply
+      debounced("a")
+      jest.advanceTimersByTime(50)
+      debounced("b")
+      jest.advanceTimersByTime(99)
+      //test
+      expect(fn).not.toHaveBeenCalled()
+      jest.advanceTimersByTime(1)
+      expect(fn).toHaveBeenCalledTimes(1)
+      expect(fn).toHaveBeenCalledWith("b")
+    })
+
+    it("with `leading`, calls the function at the start of the burst of calls", () => {
+      //setup
+      const fn = jest.fn()
+      const debounced = debounce(fn, 100, { leading: true, trailing: false })
+      //apply
+      debounced("a")
+      debounced("b")
+      jest.advanceTimersByTime(100)
+      //test
+      expect(fn).toHaveBeenCalledTimes(1)
+      expect(fn).toHaveBeenCalledWith("a")
+    })
+
+    it("with `maxWait`, calls the function at least every `maxWait` ms during a burst of calls", () => {
+      //setup
+      const fn = jest.fn()
+      const debounced = debounce(fn, 100, { maxWait: 250 })
+      //apply: a call every 50 ms during 500 ms
+      for (let time = 0; time < 500; time += 50) {
+        debounced(time)
+        jest.advanceTimersByTime(50)
+      }
+      //test
+      expect(fn.mock.calls).toStrictEqual([[200], [450]])
+    })
+
+    it("`cancel()` drops the delayed call and `flush()` does it right away", () => {
+      //setup
+      const fn = jest.fn((x: number) => x * 2)
+      const debounced = debounce(fn, 100)
+      //apply and test
+      debounced(1)
+      debounced.cancel()
+      jest.advanceTimersByTime(100)
+      expect(fn).not.toHaveBeenCalled()
+
+      debounced(2)
+      expect(debounced.pending()).toBe(true)
+      expect(debounced.flush()).toBe(4)
+      expect(debounced.pending()).toBe(false)
+      jest.advanceTimersByTime(100)
+      expect(fn).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe("throttle()", () => {
+    beforeEach(() => { jest.useFakeTimers() })
+    afterEach(() => { jest.useRealTimers() })
+
+    it("calls the function at most once every `wait` ms, the last call being delayed", () => {
+      //setup
+      const fn = jest.fn()
+      const throttled = throttle(fn, 100)
+      //apply: a call every 30 ms during 210 ms
+      for (let time = 0; time <= 210; time += 30) {
+        throttled(time)
+        jest.advanceTimersByTime(30)
+      }
+      jest.advanceTimersByTime(100)
+      //test
+      expect(fn.mock.calls).toStrictEqual([[0], [90], [180], [210]]) //at 0, 100, 200 and 300 ms
+    })
+
+    it("without `leading`, waits `wait` ms before the first call", () => {
+      //setup
+      const fn = jest.fn()
+      const throttled = throttle(fn, 100, { leading: false })
+      //apply
+      throttled("a")
+      //test
+      expect(fn).not.toHaveBeenCalled()
+      jest.advanceTimersByTime(100)
+      expect(fn).toHaveBeenCalledWith("a")
+    })
+  })
+
+  describe("rateLimit()", () => {
+    beforeEach(() => { jest.useFakeTimers() })
+    afterEach(() => { jest.useRealTimers() })
+
+    it("calls the function right away while there are tokens, then queues the calls", async () => {
+      //setup
+      const fn = jest.fn((x: number) => Promise.resolve(x))
+      const limited = rateLimit(fn, { limit: 2, interval: 1000 })
+      //apply
+      const promises = [limited(1), limited(2), limited(3)]
+      //test
+      expect(fn).toHaveBeenCalledTimes(2)
+      expect(limited.pending()).toBe(1)
+      jest.advanceTimersByTime(500)
+      expect(fn).toHaveBeenCalledTimes(3)
+      await expect(Promise.all(promises)).resolves.toStrictEqual([1, 2, 3])
+    })
+
+    it("`cancel()` rejects the queued calls and `flush()` does them right away", async () => {
+      //setup
+      const fn = jest.fn((x: number) => x)
+      const limited = rateLimit(fn, { limit: 1, interval: 1000 })
+      //apply and test
+      limited(1)
+      const cancelled = limited(2)
+      limited.cancel()
+      await expect(cancelled).rejects.toThrow("rateLimit: call cancelled")
+
+      const flushed = limited(3)
+      limited.flush()
+      await expect(flushed).resolves.toBe(3)
+      expect(limited.pending()).toBe(0)
+    })
+
+    it("throws a RangeError if `limit`, `interval` or `burst` can't let any call through", () => {
+      expect(() => rateLimit(jest.fn(), { limit: 0, interval: 1000 })).toThrow(RangeError)
+      expect(() => rateLimit(jest.fn(), { limit: NaN, interval: 1000 })).toThrow(RangeError)
+      expect(() => rateLimit(jest.fn(), { limit: 1, interval: -1 })).toThrow(RangeError)
+      expect(() => rateLimit(jest.fn(), { limit: 1, interval: 1000, burst: 0.5 })).toThrow(RangeError)
+    })
+  })
+
+  describe("pool()", () => {
+    //setup for testing purposes: task resolving after `ms`, keeping track of the tasks in flight
+    function trackedTask<T>(value: T, ms: number, inFlight: { current: number, max: number }) {
+      return () => new Promise<T>((resolve) => {
+        inFlight.current += 1
+        inFlight.max = Math.max(inFlight.max, inFlight.current)
+        setTimeout(() => { inFlight.current -= 1; resolve(value) }, ms)
+      })
+    }
+
+    it("runs the tasks with at most `concurrency` in flight, results being in the order of the tasks", async () => {
+      //setup
+      const inFlight = { current: 0, max: 0 }
+      const tasks = [trackedTask("a", 30, inFlight), trackedTask("b", 10, inFlight), trackedTask("c", 20, inFlight)]
+      const onProgress = jest.fn()
+      //apply
+      const { results, statuses } = await pool(tasks, { concurrency: 2, onProgress })
+      //test
+      expect(results).toStrictEqual(["a", "b", "c"])
+      expect(statuses.map(({ status }) => status)).toStrictEqual(["fulfilled", "fulfilled", "fulfilled"])
+      expect(inFlight.max).toBe(2)
+      expect(onProgress).toHaveBeenCalledTimes(3)
+      expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ done: 3, failed: 0, total: 3 }))
+    })
+
+    it("retries the failed tasks, and reports the tasks still failing in the statuses", async () => {
+      //setup
+      const error = new Error("always fails")
+      const flaky = jest.fn<() => Promise<string>>()
+        .mockRejectedValueOnce(new Error("first attempt fails"))
+        .mockResolvedValueOnce("ok")
+      const failing = jest.fn(() => Promise.reject(error))
+      //apply
+      const { results, statuses } = await pool([flaky, failing], { retries: 1, backoff: 1 })
+      //test
+      expect(results).toStrictEqual(["ok", undefined])
+      expect(statuses).toStrictEqual([
+        { status: "fulfilled", value: "ok", attempts: 2 },
+        { status: "rejected", reason: error, attempts: 2 }
+      ])
+      expect(failing).toHaveBeenCalledTimes(2)
+    })
+
+    it("stops starting tasks and rejects when the signal is aborted", async () => {
+      //setup
+      const controller = new AbortController()
+      const secondTask = jest.fn(() => "second")
+      const firstTask = () => { controller.abort(new Error("user cancelled")); return "first" }
+      //apply
+      const promise = pool([firstTask, secondTask], { concurrency: 1, signal: controller.signal })
+      //test
+      await expect(promise).rejects.toThrow("user cancelled")
+      expect(secondTask).not.toHaveBeenCalled()
+    })
+
+    it("rejects with a RangeError if `concurrency` is not a positive integer", async () => {
+      await expect(pool([() => 1], { concurrency: 0 })).rejects.toThrow(RangeError)
+      await expect(pool([() => 1], { concurrency: NaN })).rejects.toThrow(RangeError)
+      await expect(pool([() => 1], { concurrency: 1.5 })).rejects.toThrow(RangeError)
+    })
+
+    it("rejects with a RangeError if `retries` is not a non-negative integer", async () => {
+      //setup
+      const task = jest.fn(() => Promise.reject(new Error("always fails")))
+      //test
+      await expect(pool([task], { retries: NaN })).rejects.toThrow(RangeError)
+      await expect(pool([task], { retries: -1 })).rejects.toThrow(RangeError)
+      await expect(pool([task], { retries: 0.5 })).rejects.toThrow(RangeError)
+      expect(task).not.toHaveBeenCalled()
+    })
+
+    it("rejects when `onProgress` throws, without starting the next tasks", async () => {
+      //setup
+      const secondTask = jest.fn(() => "second")
+      const onProgress = () => { throw new Error("progress bar crashed") }
+      //apply
+      const promise = pool([() => "first", secondTask], { concurrency: 1, onProgress })
+      //test
+      await expect(promise).rejects.toThrow("progress bar crashed")
+      expect(secondTask).not.toHaveBeenCalled()
+    })
+  })
+
+  describe("memoize()", () => {
+    afterEach(() => { jest.useRealTimers() })
+
+    it("caches the results by the first argument by default", () => {
+      //setup
+      const double = jest.fn((x: number) => x * 2)
+      const memoDouble = memoize(double)
+      //apply and test
+      expect(memoDouble(2)).toBe(4)
+      expect(memoDouble(2)).toBe(4)
+      expect(memoDouble(3)).toBe(6)
+      expect(double).toHaveBeenCalledTimes(2)
+      expect(memoDouble.cache.size).toBe(2)
+    })
+
+    it("with a `structural` key, arguments with the same content share the cached result", () => {
+      //setup
+      const total = jest.fn((cart: { items: Map<string, number> }, discount: number) => 0)
+      const memoTotal = memoize(total, { key: "structural" })
+      //apply
+      memoTotal({ items: new Map([["a", 1], ["b", 2]]) }, 10)
+      memoTotal({ items: new Map([["b", 2], ["a", 1]]) }, 10)
+      memoTotal({ items: new Map([["b", 2], ["a", 1]]) }, 20)
+      //test
+      expect(total).toHaveBeenCalledTimes(2)
+    })
+
+    it("with `maxSize`, removes the least recently used result first", () => {
+      //setup
+      const double = jest.fn((x: number) => x * 2)
+      const memoDouble = memoize(double, { maxSize: 2 })
+      //apply
+      memoDouble(1); memoDouble(2)
+      memoDouble(1) //2 is now the least recently used
+      memoDouble(3)
+      //test
+      expect(memoDouble.cache.has(1)).toBe(true)
+      expect(memoDouble.cache.has(2)).toBe(false)
+      expect(memoDouble.cache.has(3)).toBe(true)
+    })
+
+    it("with `ttl`, calls the function again once the result expired", () => {
+      //setup
+      jest.useFakeTimers()
+      const double = jest.fn((x: number) => x * 2)
+      const memoDouble = memoize(double, { ttl: 1000 })
+      //apply
+      memoDouble(1)
+      jest.advanceTimersByTime(999)
+      memoDouble(1)
+      jest.advanceTimersByTime(1)
+      memoDouble(1)
+      //test
+      expect(double).toHaveBeenCalledTimes(2)
+    })
+
+    it("shares the Promise of concurrent async calls, and doesn't cache rejected Promises", async () => {
+      //setup
+      const fetchUser = jest.fn<(id: number) => Promise<string>>()
+        .mockReturnValueOnce(Promise.reject(new Error("network down")))
+        .mockReturnValueOnce(Promise.resolve("Nikita"))
+      const memoFetchUser = memoize(fetchUser)
+      //apply and test
+      const [promise1, promise2] = [memoFetchUser(1), memoFetchUser(1)]
+      expect(promise1).toBe(promise2)
+      await expect(promise1).rejects.toThrow("network down")
+      await expect(memoFetchUser(1)).resolves.toBe("Nikita")
+      expect(fetchUser).toHaveBeenCalledTimes(2)
+    })
+
+    it("`cache.delete()` and `cache.clear()` remove cached results", () => {
+      //setup
+      const double = jest.fn((x: number) => x * 2)
+      const memoDouble = memoize(double)
+      memoDouble(1); memoDouble(2)
+      //apply and test
+      expect(memoDouble.cache.delete(1)).toBe(true)
+      expect(memoDouble.cache.size).toBe(1)
+      memoDouble.cache.clear()
+      expect(memoDouble.cache.size).toBe(0)
+    })
   })
 
+  describe("structuralKey()", () => {
+    it("gives the same key to structs with the same content, whatever the order of keys", () => {
+      expect(structuralKey({ a: 1, b: [1, 2] })).toBe(structuralKey({ b: [1, 2], a: 1 }))
+      expect(structuralKey(new Set([1, 2]))).toBe(structuralKey(new Set([2, 1])))
+      expect(structuralKey(new Date(0))).toBe(structuralKey(new Date(0)))
+      expect(structuralKey([1, 2])).not.toBe(structuralKey([2, 1]))
+      expect(structuralKey(["1"])).not.toBe(structuralKey([1]))
+      expect(structuralKey(new Map([["a", 1]]))).not.toBe(structuralKey({ a: 1 }))
+    })
+
+    it("supports circular references", () => {
+      //setup
+      const obj1: any = { a: 1 }; obj1.self = obj1
+      const obj2: any = { a: 1 }; obj2.self = obj2
+      //test
+      expect(structuralKey(obj1)).toBe(structuralKey(obj2))
+    })
+  })
 
   describe("cut()", () => {
     //setup for testing purposes
@@ -112,74 +622,268 @@ describe("concurrency primitives function tests", () => {
       // but at this point the callback from cut is also called
     })
   })
-})
 
-describe("builtin data structure function tests", () => {
-  describe("countByWithMap()", () => {
-    it("returns a Map instance", () => {
-      const returnStruct = countByWithMap([], () => { })
-      expect(toType(returnStruct)).toBe("[object Map]")
+  describe("cutBarrier()", () => {
+    afterEach(() => { jest.useRealTimers() })
 
-    })
-    it("counts the number of instances where the function returns the same value", () => {
+    it("resolves with the values passed to `done`, in the order of the calls", async () => {
       //setup
-      const myObj = { "a": 1, "b": 2, "c": 2, "d": 4 }
-      class myClass {
-        a: number; b: number; c: number; d: number;
-        constructor(a, b, c, d) { this.a = a; this.b = b; this.c = c; this.d = d }
-      }
-      const myCustomObj = new myClass(1, 2, 2, 4)
-      const myMap = new Map()
-      myMap.set("a", 1).set("b", 2).set("c", 2).set("d", 4)
-      let myArr = [1, 2, 3, 4, 5]
-      const mySet = new Set(myArr)
+      const barrier = cutBarrier<string>(3)
       //apply
-      const countByWithMap_onObj = countByWithMap(myObj, ([k, v]) => { return v % 2 === 0 })
-      const expected_onObj = new Map([[false, 1], [true, 3]]);
+      barrier.done("b")
+      barrier.done("a")
+      barrier.done("c")
+      //test
+      await expect(barrier.promise).resolves.toStrictEqual(["b", "a", "c"])
+      expect(barrier.calls).toBe(3)
+    })
 
-      const countByWithMap_onCustomObj = countByWithMap(myCustomObj, ([k, v]) => { return v % 2 === 0 })
-      const expected_onCustomObj = new Map([[false, 1], [true, 3]])
+    it("resolves right away with an empty array when the limit is 0", async () => {
+      await expect(cutBarrier(0).promise).resolves.toStrictEqual([])
+    })
 
-      const countByWithMap_onMap = countByWithMap(myMap, (v, k) => { return v % 2 === 0 })
-      const expected_onMap = new Map([[false, 1], [true, 3]]);
+    it("rejects with the first error by default, without waiting for the other calls", async () => {
+      //setup
+      const barrier = cutBarrier(3)
+      const error = new Error("ajax failed")
+      //apply
+      barrier.done(1)
+      barrier.done(error)
+      //test
+      await expect(barrier.promise).rejects.toBe(error)
+    })
 
-      const countByWithMap_onSet = countByWithMap(mySet, (v) => { return v % 2 === 0 })
-      const expected_onSet = new Map([[false, 3], [true, 2]]);
+    it("with errorMode `collect`, waits for every call then rejects with an AggregateError", async () => {
+      //setup
+      const barrier = cutBarrier(3, { errorMode: "collect" })
+      const error1 = new Error("first")
+      const error2 = new Error("second")
+      let rejection;
+      barrier.promise.catch((error) => { rejection = error })
+      //apply
+      barrier.done(error1)
+      barrier.done(2)
+      await Promise.resolve()
+      expect(rejection).toBe(undefined) //not every call is done
+      barrier.done(error2)
+      //test
+      await expect(barrier.promise).rejects.toBeInstanceOf(AggregateError)
+      expect(rejection.errors).toStrictEqual([error1, error2])
+    })
 
-      const countByWithMap_onArr = countByWithMap(myArr, (v) => { return v % 2 === 0 })
-      const expected_onArr = new Map([[false, 3], [true, 2]]);
+    it("counts any reason passed to `fail` as a failure, even when it is not an Error", async () => {
+      //setup
+      const collecting = cutBarrier(2, { errorMode: "collect" })
+      const rejecting = cutBarrier(2)
+      //apply
+      Promise.reject("timeout").then(collecting.done, collecting.fail)
+      Promise.resolve(1).then(collecting.done, collecting.fail)
+      rejecting.fail(undefined)
+      //test
+      await expect(collecting.promise).rejects.toMatchObject({ errors: ["timeout"], message: "1 of 2 calls failed" })
+      await expect(rejecting.promise).rejects.toBeUndefined()
+    })
 
+    it("flags the calls after the limit", async () => {
+      //setup
+      const onOverCall = jest.fn()
+      const barrier = cutBarrier(1, { onOverCall })
+      //apply
+      barrier.done("a")
+      barrier.done("b")
       //test
-      expect(countByWithMap_onObj).toStrictEqual(expected_onObj)
-      expect(countByWithMap_onCustomObj).toStrictEqual(expected_onCustomObj)
-      expect(countByWithMap_onMap).toStrictEqual(expected_onMap)
-      expect(countByWithMap_onSet).toStrictEqual(expected_onSet)
-      expect(countByWithMap_onArr).toStrictEqual(expected_onArr)
+      await expect(barrier.promise).resolves.toStrictEqual(["a"])
+      expect(barrier.overCalls).toBe(1)
+      expect(onOverCall).toHaveBeenCalledWith("b", 2)
     })
 
-    it("doesn't mutate the struct passed in (not counting the passed function behavior)", () => {
+    it("rejects when the timeout is reached before the limit", async () => {
       //setup
-      const myObj = { "a": 1, "b": 2, "c": 2, "d": 4 }
-      class myClass {
-        a: number; b: number; c: number; d: number;
-        constructor(a, b, c, d) { this.a = a; this.b = b; this.c = c; this.d = d }
-      }
-      const myCustomObj = new myClass(1, 2, 2, 4)
-      const myMap = new Map()
-      myMap.set("a", 1).set("b", 2).set("c", 2).set("d", 4)
-      let myArr = [1, 2, 3, 4, 5]
-      const mySet = new Set(myArr)
+      jest.useFakeTimers()
+      const barrier = cutBarrier(2, { timeout: 1000 })
       //apply
-      const countByWithMap_onObj = countByWithMap(myObj, ([k, v]) => { return v % 2 === 0 })
-      const countByWithMap_onCustomObj = countByWithMap(myCustomObj, ([k, v]) => { return v % 2 === 0 })
-      const countByWithMap_onMap = countByWithMap(myMap, (v, k) => { return v % 2 === 0 })
-      const countByWithMap_onSet = countByWithMap(mySet, (v) => { return v % 2 === 0 })
-      const countByWithMap_onArr = countByWithMap(myArr, (v) => { return v % 2 === 0 })
-      //(redefine original struct (expected values))
-      const originalObj = { "a": 1, "b": 2, "c": 2, "d": 4 }
-      class myClassCopy {
-        a: number; b: number; c: number; d: number;
-        constructor(a, b, c, d) { this.a = a; this.b = b; this.c = c; this.d = d }
+      barrier.done("a")
+      jest.advanceTimersByTime(1000)
+      //test
+      await expect(barrier.promise).rejects.toThrow("cutBarrier timed out after 1000ms (1 of 2 calls done)")
+    })
+  })
+})
+
+describe("builtin data structure function tests", () => {
+  describe("range() and lazyRange()", () => {
+    it("includes `stop` when it is reached", () => {
+      expect(range(1, 5)).toStrictEqual([1, 2, 3, 4, 5])
+      expect(range(0, 9, 3)).toStrictEqual([0, 3, 6, 9])
+      expect(range(0, 10, 3)).toStrictEqual([0, 3, 6, 9])
+    })
+
+    it("works with negative and float steps", () => {
+      expect(range(5, 1, -2)).toStrictEqual([5, 3, 1])
+      expect(range(0, 1, 0.25)).toStrictEqual([0, 0.25, 0.5, 0.75, 1])
+      expect(range(0, 0.3, 0.1)).toHaveLength(4)
+      expect(range(5, 1)).toStrictEqual([])
+      expect(() => range(0, 1, 0)).toThrow(RangeError)
+    })
+
+    it("lazyRange is infinite without `stop`", () => {
+      const iterator = lazyRange(10)
+      expect([iterator.next().value, iterator.next().value, iterator.next().value]).toStrictEqual([10, 11, 12])
+    })
+
+    it("lazyRange without `stop` goes towards -Infinity with a negative step", () => {
+      expect(lazy(lazyRange(0, undefined, -1)).take(3).toArray()).toStrictEqual([0, -1, -2])
+    })
+
+    it("lazyRange rejects a step of 0 right away", () => {
+      expect(() => lazyRange(0, 1, 0)).toThrow(RangeError)
+      expect(() => lazyRange(0, 1, NaN)).toThrow(RangeError)
+    })
+  })
+
+  describe("lazy()", () => {
+    it("chains the operations lazily, so that infinite sources can be used", () => {
+      //setup
+      const square = jest.fn((x: number) => x * x)
+      //apply
+      const result = lazy(lazyRange(1)).filter((x) => x % 2 === 0).map(square).take(3).toArray()
+      //test
+      expect(result).toStrictEqual([4, 16, 36])
+      expect(square).toHaveBeenCalledTimes(3)
+    })
+
+    it("works on arrays, Sets, Maps and objects (iterating on [key, value])", () => {
+      expect(lazy([1, 2, 3]).map((x) => x * 2).toArray()).toStrictEqual([2, 4, 6])
+      expect(lazy(new Set([1, 2, 3])).filter((x) => x > 1).toArray()).toStrictEqual([2, 3])
+      expect(lazy(new Map([["a", 1], ["b", 2]])).map(([k, v]) => k + v).toArray()).toStrictEqual(["a1", "b2"])
+      expect(lazy({ a: 1, b: 2 }).map(([k, v]) => k + v).toArray()).toStrictEqual(["a1", "b2"])
+    })
+
+    it("takeWhile, chunk, window, zip, enumerate and flatMap", () => {
+      const arr = [1, 2, 3, 4, 5]
+      expect(lazy(arr).takeWhile((x) => x < 3).toArray()).toStrictEqual([1, 2])
+      expect(lazy(arr).chunk(2).toArray()).toStrictEqual([[1, 2], [3, 4], [5]])
+      expect(lazy(arr).window(3).toArray()).toStrictEqual([[1, 2, 3], [2, 3, 4], [3, 4, 5]])
+      expect(lazy(arr).window(2, 3).toArray()).toStrictEqual([[1, 2], [4, 5]])
+      expect(lazy(arr).zip(["a", "b"], new Set([true, false, true])).toArray()).toStrictEqual([[1, "a", true], [2, "b", false]])
+      expect(lazy(["a", "b"]).enumerate().toArray()).toStrictEqual([[0, "a"], [1, "b"]])
+      expect(lazy([1, 2]).flatMap((x) => [x, x * 10]).toArray()).toStrictEqual([1, 10, 2, 20])
+    })
+
+    it("rejects the chunk and window sizes which are not positive integers", () => {
+      expect(() => lazy([1, 2]).chunk(0)).toThrow(RangeError)
+      expect(() => lazy([1, 2]).window(-1)).toThrow(RangeError)
+      expect(() => lazy([1, 2]).window(2, 0)).toThrow(RangeError)
+      expect(() => lazy([1, 2]).window(1.5)).toThrow(RangeError)
+    })
+
+    it("zip closes the iterators of the longer structs", async () => {
+      //setup
+      const closed: Array<string> = []
+      function* letters() {
+        try { yield "a"; yield "b"; yield "c" } finally { closed.push("letters") }
+      }
+      async function* asyncLetters() {
+        try { yield "a"; yield "b"; yield "c" } finally { closed.push("asyncLetters") }
+      }
+      //apply
+      const zipped = lazy([1]).zip(letters()).toArray()
+      const asyncZipped = await lazy(asyncLetters()).zip([1]).toArray()
+      //test
+      expect(zipped).toStrictEqual([[1, "a"]])
+      expect(asyncZipped).toStrictEqual([["a", 1]])
+      expect(closed).toStrictEqual(["letters", "asyncLetters"])
+    })
+
+    it("can be iterated several times when the source can", () => {
+      const doubled = lazy([1, 2]).map((x) => x * 2)
+      expect([...doubled]).toStrictEqual([2, 4])
+      expect(doubled.reduce((acc, x) => acc + x, 0)).toBe(6)
+    })
+
+    it("works on async iterables, with functions returning Promises", async () => {
+      //setup
+      async function* fetchPages() {
+        yield { items: [1, 2] }
+        yield { items: [3, 4] }
+        yield { items: [5] }
+      }
+      //apply
+      const result = lazy(fetchPages())
+        .flatMap((page) => page.items)
+        .map((x) => Promise.resolve(x * 2))
+        .zip(["a", "b", "c"])
+        .toArray()
+      //test
+      await expect(result).resolves.toStrictEqual([[2, "a"], [4, "b"], [6, "c"]])
+    })
+  })
+
+  describe("countByWithMap()", () => {
+    it("returns a Map instance", () => {
+      const returnStruct = countByWithMap([], () => { })
+      expect(toType(returnStruct)).toBe("[object Map]")
+
+    })
+    it("counts the number of instances where the function returns the same value", () => {
+      //setup
+      const myObj = { "a": 1, "b": 2, "c": 2, "d": 4 }
+      class myClass {
+        a: number; b: number; c: number; d: number;
+        constructor(a, b, c, d) { this.a = a; this.b = b; this.c = c; this.d = d }
+      }
+      const myCustomObj = new myClass(1, 2, 2, 4)
+      const myMap = new Map()
+      myMap.set("a", 1).set("b", 2).set("c", 2).set("d", 4)
+      let myArr = [1, 2, 3, 4, 5]
+      const mySet = new Set(myArr)
+      //apply
+      const countByWithMap_onObj = countByWithMap(myObj, ([k, v]) => { return v % 2 === 0 })
+      const expected_onObj = new Map([[false, 1], [true, 3]]);
+
+      const countByWithMap_onCustomObj = countByWithMap(myCustomObj, ([k, v]) => { return v % 2 === 0 })
+      const expected_onCustomObj = new Map([[false, 1], [true, 3]])
+
+      const countByWithMap_onMap = countByWithMap(myMap, (v, k) => { return v % 2 === 0 })
+      const expected_onMap = new Map([[false, 1], [true, 3]]);
+
+      const countByWithMap_onSet = countByWithMap(mySet, (v) => { return v % 2 === 0 })
+      const expected_onSet = new Map([[false, 3], [true, 2]]);
+
+      const countByWithMap_onArr = countByWithMap(myArr, (v) => { return v % 2 === 0 })
+      const expected_onArr = new Map([[false, 3], [true, 2]]);
+
+      //test
+      expect(countByWithMap_onObj).toStrictEqual(expected_onObj)
+      expect(countByWithMap_onCustomObj).toStrictEqual(expected_onCustomObj)
+      expect(countByWithMap_onMap).toStrictEqual(expected_onMap)
+      expect(countByWithMap_onSet).toStrictEqual(expected_onSet)
+      expect(countByWithMap_onArr).toStrictEqual(expected_onArr)
+    })
+
+    it("doesn't mutate the struct passed in (not counting the passed function behavior)", () => {
+      //setup
+      const myObj = { "a": 1, "b": 2, "c": 2, "d": 4 }
+      class myClass {
+        a: number; b: number; c: number; d: number;
+        constructor(a, b, c, d) { this.a = a; this.b = b; this.c = c; this.d = d }
+      }
+      const myCustomObj = new myClass(1, 2, 2, 4)
+      const myMap = new Map()
+      myMap.set("a", 1).set("b", 2).set("c", 2).set("d", 4)
+      let myArr = [1, 2, 3, 4, 5]
+      const mySet = new Set(myArr)
+      //apply
+      const countByWithMap_onObj = countByWithMap(myObj, ([k, v]) => { return v % 2 === 0 })
+      const countByWithMap_onCustomObj = countByWithMap(myCustomObj, ([k, v]) => { return v % 2 === 0 })
+      const countByWithMap_onMap = countByWithMap(myMap, (v, k) => { return v % 2 === 0 })
+      const countByWithMap_onSet = countByWithMap(mySet, (v) => { return v % 2 === 0 })
+      const countByWithMap_onArr = countByWithMap(myArr, (v) => { return v % 2 === 0 })
+      //(redefine original struct (expected values))
+      const originalObj = { "a": 1, "b": 2, "c": 2, "d": 4 }
+      class myClassCopy {
+        a: number; b: number; c: number; d: number;
+        constructor(a, b, c, d) { this.a = a; this.b = b; this.c = c; this.d = d }
       }
       const originalCustomObj = new myClass(1, 2, 2, 4)
       const notOriginalCustomObj = new myClassCopy(1, 2, 2, 4)
@@ -210,6 +914,35 @@ describe("builtin data structure function tests", () => {
     })
   })
 
+  describe("countBy* and groupBy* typing", () => {
+    it("types the callback arguments and the groupings according to the struct", () => {
+      //setup
+      const myMap = new Map([["a", 1], ["b", 2]])
+      //apply
+      const grouped: Map<boolean, Map<string, string>> = groupByWithMap(myMap, (v, k) => v > 1 && k !== "",
+        ([k, v]) => [k, String(v)])
+      const counted: Record<string, number> = countByWithObj(new Set(["a", "bb"]), (v) => v.length)
+      //test
+      expect(grouped).toStrictEqual(new Map([[false, new Map([["a", "1"]])], [true, new Map([["b", "2"]])]]))
+      expect(counted).toStrictEqual({ 1: 1, 2: 1 })
+    })
+
+    it("rejects other types of struct at compile time", () => {
+      // @ts-expect-error
+      expect(() => groupByWithMap(42, (v) => v)).toThrow(TypeError)
+      // @ts-expect-error
+      expect(() => countByWithMap("abc", (v) => v)).toThrow(TypeError)
+      // @ts-expect-error
+      expect(() => groupByWithObj(new Date(0), (entry) => entry)).toThrow(TypeError)
+      // @ts-expect-error
+      expect(() => countByWithObj(/abc/, (entry) => entry)).toThrow(TypeError)
+      // @ts-expect-error
+      expect(() => groupByWithMap(() => 1, (entry) => entry)).toThrow(TypeError)
+      // @ts-expect-error
+      expect(() => countByWithMap(Promise.resolve(1), (entry) => entry)).toThrow(TypeError)
+    })
+  })
+
   describe("countByWithObject()", () => {
     it("returns an literal object", () => {
       const returnStruct = countByWithObj([], () => { })
@@ -585,6 +1318,84 @@ describe("builtin data structure function tests", () => {
     })
   })
 
+  describe("groupByNested()", () => {
+    //setup
+    const sales = [
+      { country: "FR", year: 2023, price: 10 },
+      { country: "FR", year: 2024, price: 20 },
+      { country: "UK", year: 2024, price: 30 },
+      { country: "FR", year: 2024, price: 40 },
+    ]
+
+    it("groups the struct on several levels, in nested Maps", () => {
+      //apply
+      const result: Map<string, Map<number, typeof sales>> = groupByNested(sales, [(sale) => sale.country, (sale) => sale.year])
+      //test
+      expect(result).toStrictEqual(new Map([
+        ["FR", new Map([[2023, [sales[0]]], [2024, [sales[1], sales[3]]]])],
+        ["UK", new Map([[2024, [sales[2]]]])]
+      ]))
+    })
+
+    it("groups the struct on several levels in literal objects with `into: object`", () => {
+      //setup
+      const myMap = new Map([["a", 1], ["b", 2], ["c", 3]])
+      //apply
+      const result: Record<string, Record<string, Map<string, number>>> =
+        groupByNested(myMap, [(v) => v > 1, (v) => v % 2 === 0], { into: "object" })
+      //test
+      expect(result).toStrictEqual({
+        false: { false: new Map([["a", 1]]) },
+        true: { true: new Map([["b", 2]]), false: new Map([["c", 3]]) }
+      })
+    })
+
+    it("returns the struct when no function is passed", () => {
+      expect(groupByNested(sales, [])).toBe(sales)
+    })
+
+    it("types the callbacks from the struct", () => {
+      // @ts-expect-error the sales have no `region`
+      expect(() => groupByNested(sales, [(sale) => sale.region.toUpperCase()])).toThrow(TypeError)
+    })
+  })
+
+  describe("aggregateBy()", () => {
+    it("computes several aggregates on each grouping", () => {
+      //setup
+      const sales = [
+        { country: "FR", price: 10 },
+        { country: "FR", price: 20 },
+        { country: "UK", price: 30 },
+        { country: "FR", price: 40 },
+      ]
+      //apply
+      const result = aggregateBy(sales, (sale) => sale.country, {
+        total: sumOf((sale) => sale.price),
+        avg: meanOf((sale) => sale.price),
+        cheapest: minOf((sale) => sale.price),
+        mostExpensive: maxOf((sale) => sale.price),
+        nbOfSales: countOf(),
+        first: firstOf((sale) => sale.price),
+        last: lastOf()
+      })
+      //test
+      expect(result).toStrictEqual(new Map([
+        ["FR", { total: 70, avg: 23.33, cheapest: 10, mostExpensive: 40, nbOfSales: 3, first: 10, last: sales[3] }],
+        ["UK", { total: 30, avg: 30, cheapest: 30, mostExpensive: 30, nbOfSales: 1, first: 30, last: sales[2] }]
+      ]))
+    })
+
+    it("aggregates the values of Maps and objects, into a literal object with `into: object`", () => {
+      //setup
+      const myObj = { "a": 1, "b": 2, "c": 3 }
+      //apply
+      const result = aggregateBy(myObj, ([k, v]) => v % 2 === 0, { total: sumOf(), nb: countOf() }, { into: "object" })
+      //test
+      expect(result).toStrictEqual({ false: { total: 4, nb: 2 }, true: { total: 2, nb: 1 } })
+    })
+  })
+
   describe("extractKeysFrom()", () => {
     it("transform an array of object, each having a `key` key, to the corresponding object", () => {
       //setup
@@ -657,4 +1468,1286 @@ describe("builtin data structure function tests", () => {
       expect(arr).toStrictEqual(copyOfOriginalArr)
     })
   })
-})
\ No newline at end of file
+
+  describe("keyBy()", () => {
+    //setup
+    const users = [{ id: "a", team: "red" }, { id: "b", team: "blue" }, { id: "c", team: "red" }]
+
+    it("indexes the records by a property or a function", () => {
+      //test
+      expect(keyBy(users, "id")).toStrictEqual({ a: users[0], b: users[1], c: users[2] })
+      expect(keyBy(users, "id", { omitKey: true })).toStrictEqual({ a: { team: "red" }, b: { team: "blue" }, c: { team: "red" } })
+      expect(keyBy(new Set(users), (user, idx) => idx, { into: "map" })).toStrictEqual(new Map([[0, users[0]], [1, users[1]], [2, users[2]]]))
+    })
+
+    it("applies the duplicate key policy", () => {
+      //test
+      expect(() => keyBy(users, "team")).toThrow("keyBy: duplicate key red")
+      expect(keyBy(users, "team", { onDuplicate: "first" })).toStrictEqual({ red: users[0], blue: users[1] })
+      expect(keyBy(users, "team", { onDuplicate: "last" })).toStrictEqual({ red: users[2], blue: users[1] })
+      expect(keyBy(users, "team", { onDuplicate: "group", into: "map" }))
+        .toStrictEqual(new Map([["red", [users[0], users[2]]], ["blue", [users[1]]]]))
+    })
+
+    it("works with Maps of records and records being Maps", () => {
+      //setup
+      const records = new Map([[1, new Map([["id", "x"], ["v", "1"]])]])
+      //test
+      expect(keyBy(records, (record) => record.get("id"))).toStrictEqual({ x: records.get(1) })
+      // @ts-expect-error the keys of Map records are not known at compile time
+      expect(keyBy([new Map([["id", "x"], ["v", "1"]])], "id", { omitKey: true })).toStrictEqual({ x: new Map([["v", "1"]]) })
+    })
+  })
+
+  describe("pluck(), pick(), omit(), renameKeys() and unzipToObj()", () => {
+    it("reshape a record or each record of a collection", () => {
+      //setup
+      const users = [{ id: 1, name: "Ann", age: 30 }, { id: 2, name: "Bob", age: 40 }]
+      //test
+      expect(pluck(users, "name")).toStrictEqual(["Ann", "Bob"])
+      expect(pluck(new Set([new Map([["a", 1]])]), "a")).toStrictEqual([1])
+      expect(pick(users, ["id"])).toStrictEqual([{ id: 1 }, { id: 2 }])
+      expect(pick(new Map([["a", 1], ["b", 2]]), ["b", "c"])).toStrictEqual(new Map([["b", 2]]))
+      expect(omit(new Set(users), ["age", "name"])).toStrictEqual(new Set([{ id: 1 }, { id: 2 }]))
+      expect(renameKeys(users[0], { name: "firstName" })).toStrictEqual({ id: 1, firstName: "Ann", age: 30 })
+      expect(renameKeys(new Map([["a", 1]]), new Map([["a", "b"]]))).toStrictEqual(new Map([["b", 1]]))
+      expect(users[0]).toStrictEqual({ id: 1, name: "Ann", age: 30 })
+    })
+
+    it("renameKeys overwrites an existing key and supports swaps", () => {
+      //test
+      expect(renameKeys({ a: 1, b: 2 }, { a: "b" })).toStrictEqual({ b: 1 })
+      expect(renameKeys({ a: 1, b: 2 }, { a: "b", b: "a" })).toStrictEqual({ b: 1, a: 2 })
+    })
+
+    it("unzipToObj is the inverse of createObjFrom", () => {
+      //setup
+      const obj = { a: 1, b: 2 }
+      //apply
+      const [keys, values] = unzipToObj(obj)
+      //test
+      expect([keys, values]).toStrictEqual([["a", "b"], [1, 2]])
+      expect(createObjFrom(keys, values)).toStrictEqual(obj)
+      expect(unzipToObj(new Map([[1, "x"]]))).toStrictEqual([[1], ["x"]])
+    })
+
+    it("create a \"__proto__\" key as a property, without changing the prototype", () => {
+      //setup
+      const parsed = JSON.parse('{"__proto__":{"isAdmin":true},"name":"Ann"}')
+      //apply
+      const results = [
+        pick(parsed, ["__proto__"]),
+        renameKeys({ name: "Ann" }, { name: "__proto__" }),
+        createObjFrom(["__proto__"], ["Ann"]),
+      ]
+      //test
+      results.forEach((result) => {
+        expect(Object.keys(result)).toStrictEqual(["__proto__"])
+        expect(Object.getPrototypeOf(result)).toBe(Object.prototype)
+      })
+    })
+  })
+
+  describe("withArraySwap() and withArraySwapAsync()", () => {
+    it("round-trips the struct through an array", () => {
+      //setup
+      const isEven = (x: number) => x % 2 === 0
+      function* numbers(): Generator<number> { yield 1; yield 2 }
+      //test
+      expect(withArraySwap(new Map([["a", 1], ["b", 2]]), (arr) => arr.filter(([, v]) => isEven(v)))).toStrictEqual(new Map([["b", 2]]))
+      expect(withArraySwap(new Set([1, 2, 3]), (arr) => arr.filter(isEven))).toStrictEqual(new Set([2]))
+      expect(withArraySwap({ a: 1, b: 2 }, (arr) => arr.filter(([, v]) => isEven(v)))).toStrictEqual({ b: 2 })
+      expect(withArraySwap([3, 1, 2], (arr) => arr.sort())).toStrictEqual([1, 2, 3])
+      expect(withArraySwap("hello", (chars) => chars.reverse())).toBe("olleh")
+      expect(withArraySwap(new Int16Array([1, 2, 3]), (arr) => arr.filter(isEven))).toStrictEqual(new Int16Array([2]))
+      expect(withArraySwap(numbers(), (arr) => arr.map((x) => x * 10))).toStrictEqual([10, 20])
+    })
+
+    it("doesn't mutate the original array", () => {
+      //setup
+      const arr = [3, 1, 2]
+      //apply
+      withArraySwap(arr, (copy) => copy.sort())
+      //test
+      expect(arr).toStrictEqual([3, 1, 2])
+    })
+
+    it("uses the registered codecs, and throws for the unsupported types", () => {
+      //setup
+      class Stack<T> {
+        constructor(public items: Array<T>) { }
+      }
+      const unregister = registerSwapCodec<Stack<any>>({
+        test: (x) => x instanceof Stack, toArray: (stack) => stack.items, fromArray: (arr) => new Stack(arr)
+      })
+      //apply
+      const result = withArraySwap(new Stack([1, 2]), (arr) => arr.reverse())
+      unregister()
+      //test
+      expect(result).toStrictEqual(new Stack([2, 1]))
+      expect(() => withArraySwap(42, (arr) => arr)).toThrow(TypeError)
+    })
+
+    it("keeps the class of the objects", () => {
+      //setup
+      class Scores {
+        constructor(public ann: number, public bob: number) { }
+        best() { return Math.max(this.ann, this.bob) }
+      }
+      //apply
+      const result = withArraySwap(new Scores(1, 2), (entries) => entries.map(([name, score]) => [name, score * 10] as [typeof name, number]))
+      //test
+      expect(result).toBeInstanceOf(Scores)
+      expect(result.best()).toBe(20)
+    })
+
+    it("withArraySwapAsync awaits the function", async () => {
+      //apply
+      const result = await withArraySwapAsync(new Set([1, 2]), async (arr) => arr.map((x) => x + 1))
+      //test
+      expect(result).toStrictEqual(new Set([2, 3]))
+    })
+  })
+
+  describe("addToMapIfKeyAbsent() and addToObjIfKeyAbsent()", () => {
+    it("calls ifPresent when the key is present, even holding undefined", () => {
+      //setup
+      const myMap = new Map<string, number | undefined>([["a", undefined]])
+      const sym = Symbol("s")
+      const myObj = { a: undefined as number | undefined, [sym]: 1 }
+      //apply
+      const mapResult = addToMapIfKeyAbsent(myMap, "a", 1, { ifPresent: () => 2 })
+      const objResult = addToObjIfKeyAbsent(myObj, sym, 5, { ifPresent: (v) => v + 1 })
+      //test
+      expect(mapResult.get("a")).toBe(2)
+      expect(addToObjIfKeyAbsent(myObj, "a", 1)).toBe(myObj)
+      expect(objResult[sym]).toBe(2)
+      expect(myObj[sym]).toBe(1)
+    })
+  })
+
+  describe("upsert() and upsertAll()", () => {
+    it("inserts or updates copy-on-write on Maps and objects", () => {
+      //setup
+      const stock = new Map([["apple", 1]])
+      const obj = { apple: 1, untouched: { a: 1 } }
+      //apply
+      const updated = upsert(stock, "apple", { insert: () => 1, update: (qty) => qty + 1 })
+      const inserted = upsert(stock, "pear", { insert: (key) => key.length, update: (qty) => qty + 1 })
+      const updatedObj = upsert(obj, "apple", { update: (qty) => qty + 10 })
+      //test
+      expect(updated).toStrictEqual(new Map([["apple", 2]]))
+      expect(inserted).toStrictEqual(new Map([["apple", 1], ["pear", 4]]))
+      expect(updatedObj).toStrictEqual({ apple: 11, untouched: { a: 1 } })
+      expect(updatedObj.untouched).toBe(obj.untouched)
+      expect(stock.get("apple")).toBe(1)
+    })
+
+    it("returns the same struct when there is nothing to do", () => {
+      //setup
+      const stock = new Map([["apple", 1]])
+      //test
+      expect(upsert(stock, "pear", { update: (qty) => qty + 1 })).toBe(stock)
+      expect(upsert(stock, "apple", { insert: () => 0 })).toBe(stock)
+      expect(upsert(stock, "apple", { update: (qty) => qty })).toBe(stock)
+    })
+
+    it("works with [immerable] class objects", () => {
+      //setup
+      class Inventory {
+        [immerable] = true
+        items: Record<string, number> = {}
+        count() { return Object.keys(this.items).length }
+      }
+      const inventory = new Inventory()
+      //apply
+      const result = upsert(inventory, "items", { update: (items) => ({ ...items, apple: 1 }) })
+      //test
+      expect(result).toBeInstanceOf(Inventory)
+      expect(result.count()).toBe(1)
+      expect(inventory.count()).toBe(0)
+    })
+
+    it("upsertAll applies the entries in order", () => {
+      //setup
+      const stock = new Map([["apple", 1]])
+      const counts: Record<string, number> = { a: 1 }
+      //apply
+      const result = upsertAll(stock, [["apple", 2], ["pear", 3], ["pear", 1]], { update: (qty, added) => qty + added })
+      //test
+      expect(result).toStrictEqual(new Map([["apple", 3], ["pear", 4]]))
+      expect(upsertAll(counts, new Map([["a", 2], ["b", 3]]))).toStrictEqual({ a: 2, b: 3 })
+    })
+  })
+
+  describe("computeIfAbsent(), computeIfPresent() and merge()", () => {
+    it("behave like the Java Map methods, copy-on-write", () => {
+      //setup
+      const groups: Record<string, Array<string>> = { admins: ["ann"] }
+      const wordCount = new Map([["hello", 1]])
+      //apply
+      const withUsers = computeIfAbsent(groups, "users", () => [])
+      const sameGroups = computeIfAbsent(groups, "admins", () => [])
+      const renamed = computeIfPresent(groups, "admins", (names) => names.map((name) => name.toUpperCase()))
+      const unchanged = computeIfPresent(groups, "guests", () => ["x"])
+      const merged = merge(merge(wordCount, "hello", 1, (a, b) => a + b), "world", 1, (a, b) => a + b)
+      //test
+      expect(withUsers).toStrictEqual({ admins: ["ann"], users: [] })
+      expect(sameGroups).toBe(groups)
+      expect(renamed).toStrictEqual({ admins: ["ANN"] })
+      expect(unchanged).toBe(groups)
+      expect(merged).toStrictEqual(new Map([["hello", 2], ["world", 1]]))
+      expect(groups).toStrictEqual({ admins: ["ann"] })
+    })
+  })
+
+  describe("getKeysFromValue() and invert()", () => {
+    it("getKeysFromValue supports arrays and rejects the unsupported types", () => {
+      //test
+      expect(getKeysFromValue(["a", "b", "a"], "a")).toStrictEqual(new Set([0, 2]))
+      expect(() => getKeysFromValue(new Set(["a"]), "a")).toThrow(TypeError)
+    })
+
+    it("invert builds the Map from each value to its keys", () => {
+      //setup
+      const sym = Symbol("s")
+      //test
+      expect(invert({ a: 1, b: 2, c: 1 })).toStrictEqual(new Map([[1, new Set(["a", "c"])], [2, new Set(["b"])]]))
+      expect(invert(new Map<string | symbol, string>([[sym, "x"], ["k", "x"]]))).toStrictEqual(new Map([["x", new Set([sym, "k"])]]))
+      expect(invert(["x", "y", "x"])).toStrictEqual(new Map([["x", new Set([0, 2])], ["y", new Set([1])]]))
+      expect(invert({ a: [1], b: [1] }, { structural: true })).toStrictEqual(new Map([[[1], new Set(["a", "b"])]]))
+      expect(() => invert(new Set([1]))).toThrow("invert: expected a Map, an array or a literal object")
+    })
+  })
+
+  describe("indexBy()", () => {
+    it("indexes the values one-to-one and reports the collisions", () => {
+      //setup
+      const users = [{ id: 1, email: "a@x.fr" }, { id: 2, email: "b@x.fr" }, { id: 3, email: "a@x.fr" }]
+      //apply
+      const { index, collisions } = indexBy(users, (user) => user.email)
+      //test
+      expect(index).toStrictEqual(new Map([["a@x.fr", users[0]], ["b@x.fr", users[1]]]))
+      expect(collisions).toStrictEqual(new Map([["a@x.fr", [users[0], users[2]]]]))
+    })
+
+    it("works with Sets, Maps and objects", () => {
+      //test
+      expect(indexBy(new Set(["ab", "cd"]), (word) => word[0]).index).toStrictEqual(new Map([["a", "ab"], ["c", "cd"]]))
+      expect(indexBy(new Map([["k", 1]]), (value, key) => key + value).index).toStrictEqual(new Map([["k1", 1]]))
+      expect(indexBy({ a: 1, b: 2 }, (value, key) => key.toUpperCase()).index).toStrictEqual(new Map([["A", 1], ["B", 2]]))
+    })
+  })
+
+  describe("BiMap", () => {
+    it("looks up in both directions", () => {
+      //setup
+      const codes = new BiMap([["fr", "France"], ["de", "Germany"]])
+      //apply
+      codes.set("fr", "République française")
+      //test
+      expect(codes.get("fr")).toBe("République française")
+      expect(codes.getKey("Germany")).toBe("de")
+      expect(codes.hasValue("France")).toBe(false)
+      expect(codes.inverse().get("Germany")).toBe("de")
+      expect(codes.deleteValue("Germany")).toBe(true)
+      expect([...codes]).toStrictEqual([["fr", "République française"]])
+    })
+
+    it("applies the duplicate value policy", () => {
+      //setup
+      const entries: Array<[string, number]> = [["a", 1], ["b", 1]]
+      //test
+      expect(() => new BiMap(entries)).toThrow("BiMap: value 1 already set for the key a")
+      expect([...new BiMap(entries, { onDuplicateValue: "overwrite" })]).toStrictEqual([["b", 1]])
+      expect([...new BiMap(entries, { onDuplicateValue: "ignore" })]).toStrictEqual([["a", 1]])
+    })
+  })
+})
+
+describe("structural equality function tests", () => {
+  describe("deepEqual()", () => {
+    it("compares primitives like `===`, except NaN", () => {
+      expect(deepEqual(1, 1)).toBe(true)
+      expect(deepEqual(1, "1")).toBe(false)
+      expect(deepEqual(NaN, NaN)).toBe(true)
+      expect(deepEqual(null, undefined)).toBe(false)
+    })
+
+    it("compares arrays, objects, Maps, Sets, Dates and RegExps by content", () => {
+      expect(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true)
+      expect(deepEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false)
+      expect(deepEqual([1, 2], [2, 1])).toBe(false)
+      expect(deepEqual(new Set([{ x: 1 }, 2]), new Set([2, { x: 1 }]))).toBe(true)
+      expect(deepEqual(new Map([[{ k: 1 }, "a"]]), new Map([[{ k: 1 }, "a"]]))).toBe(true)
+      expect(deepEqual(new Map([["k", "a"]]), new Map([["k", "b"]]))).toBe(false)
+      expect(deepEqual(new Date(0), new Date(0))).toBe(true)
+      expect(deepEqual(/a/g, /a/g)).toBe(true)
+      expect(deepEqual(/a/g, /a/i)).toBe(false)
+      expect(deepEqual([], {})).toBe(false)
+    })
+
+    it("compares the prototype of custom objects", () => {
+      //setup
+      class Point {
+        x: number;
+        constructor(x) { this.x = x }
+      }
+      //test
+      expect(deepEqual(new Point(1), new Point(1))).toBe(true)
+      expect(deepEqual(new Point(1), { x: 1 })).toBe(false)
+    })
+
+    it("supports circular references", () => {
+      //setup
+      const a: any = { val: 1 }; a.self = a
+      const b: any = { val: 1 }; b.self = b
+      const c: any = { val: 2 }; c.self = c
+      //test
+      expect(deepEqual(a, b)).toBe(true)
+      expect(deepEqual(a, c)).toBe(false)
+    })
+  })
+
+  describe("hash()", () => {
+    it("gives the same hash to deep equal values", () => {
+      expect(hash({ a: 1, b: new Set([1, 2]) })).toBe(hash({ b: new Set([2, 1]), a: 1 }))
+      expect(hash({ a: 1 })).not.toBe(hash({ a: 2 }))
+      expect(Number.isInteger(hash("abc"))).toBe(true)
+    })
+
+    it("follows the rules of `deepEqual` for circular references and custom objects", () => {
+      //setup
+      class Point { constructor(public x: number) { } }
+      class OtherPoint { constructor(public x: number) { } }
+      const loop1: any = { val: 1 }; loop1.next = loop1
+      const loop2: any = { val: 1 }; loop2.next = { val: 1, next: loop2 }
+      const loop3: any = { val: 1 }; loop3.next = loop3
+      const pairs: Array<[any, any]> = [
+        [loop1, loop2],
+        [loop1, loop3],
+        [new Set([loop1]), new Set([loop3])],
+        [new Point(1), new Point(1)],
+        [new Point(1), new OtherPoint(1)],
+        [new Point(1), { x: 1 }],
+        [Object.create(null), {}],
+        [[, 1], [undefined, 1]],
+        [new Date(NaN), new Date(NaN)],
+      ]
+      //test
+      pairs.forEach(([a, b]) => {
+        expect(hash(a) === hash(b)).toBe(deepEqual(a, b))
+        expect(structuralKey(a) === structuralKey(b)).toBe(deepEqual(a, b))
+      })
+      expect(deepEqual(loop1, loop3)).toBe(true)
+      expect(deepEqual(new Point(1), new OtherPoint(1))).toBe(false)
+    })
+  })
+
+  describe("StructuralMap and StructuralSet", () => {
+    it("StructuralMap compares the keys by value", () => {
+      //setup
+      const map = new StructuralMap<{ x: number, y: number }, string>([[{ x: 0, y: 0 }, "origin"]])
+      const firstKey = Array.from(map.keys())[0]
+      //apply
+      map.set({ y: 0, x: 0 }, "center")
+      map.set({ x: 1, y: 0 }, "right")
+      //test
+      expect(map.size).toBe(2)
+      expect(map.get({ x: 0, y: 0 })).toBe("center")
+      expect(map.getKey({ x: 0, y: 0 })).toBe(firstKey)
+      expect(map.has({ x: 1, y: 0 })).toBe(true)
+      expect(map.delete({ x: 1, y: 0 })).toBe(true)
+      expect(Array.from(map)).toStrictEqual([[{ x: 0, y: 0 }, "center"]])
+    })
+
+    it("StructuralSet compares the values by value", () => {
+      //setup
+      const set = new StructuralSet([[0, 0], [0, 1]])
+      //apply
+      set.add([0, 0])
+      //test
+      expect(set.size).toBe(2)
+      expect(set.has([0, 1])).toBe(true)
+      expect(set.has([1, 0])).toBe(false)
+      expect([...set]).toStrictEqual([[0, 0], [0, 1]])
+    })
+  })
+
+  describe("structural modes of the data structure helpers", () => {
+    it("countByWithMap and groupByWithMap group the keys returned which are deep equal", () => {
+      //setup
+      const points = [{ x: 0, y: 1 }, { x: 0, y: 2 }, { x: 1, y: 1 }]
+      //apply
+      const counted = countByWithMap(points, (point) => ({ x: point.x }), { structural: true })
+      const grouped = groupByWithMap(points, (point) => [point.x], undefined, { structural: true })
+      const groupedByReference = groupByWithMap(points, (point) => [point.x])
+      //test
+      expect(counted).toStrictEqual(new Map([[{ x: 0 }, 2], [{ x: 1 }, 1]]))
+      expect(grouped).toStrictEqual(new Map([[[0], [points[0], points[1]]], [[1], [points[2]]]]))
+      expect(groupedByReference.size).toBe(3)
+    })
+
+    it("addToMapIfKeyAbsent considers a deep equal key as present", () => {
+      //setup
+      const myMap = new Map([[{ id: 1 }, "a"]])
+      //apply
+      const byReference = addToMapIfKeyAbsent(myMap, { id: 1 }, "b")
+      const byValue = addToMapIfKeyAbsent(myMap, { id: 1 }, "b", { structural: true })
+      //test
+      expect(byReference.size).toBe(2)
+      expect(byValue).toBe(myMap)
+    })
+
+    it("getKeysFromValue finds the keys of the deep equal values", () => {
+      //setup
+      const myObj = { a: [1, 2], b: [1, 2], c: [3] }
+      //test
+      expect(getKeysFromValue(myObj, [1, 2])).toStrictEqual(new Set())
+      expect(getKeysFromValue(myObj, [1, 2], { structural: true })).toStrictEqual(new Set(["a", "b"]))
+    })
+  })
+})
+
+describe("deep copy, merge and diff function tests", () => {
+  describe("deepClone()", () => {
+    it("copies arrays, objects, Maps, Sets and Dates recursively", () => {
+      //setup
+      const original = { list: [{ a: 1 }], map: new Map([["k", { b: 2 }]]), set: new Set([[1]]), date: new Date(0) }
+      //apply
+      const copy = deepClone(original)
+      //test
+      expect(copy).toStrictEqual(original)
+      expect(copy.list[0]).not.toBe(original.list[0])
+      expect(copy.map.get("k")).not.toBe(original.map.get("k"))
+      expect(Array.from(copy.set)[0]).not.toBe(Array.from(original.set)[0])
+      expect(copy.date).not.toBe(original.date)
+    })
+
+    it("keeps the prototype of custom objects, and supports circular references", () => {
+      //setup
+      class Node {
+        [immerable] = true;
+        next: Node;
+        value: number;
+        constructor(value) { this.value = value }
+      }
+      const node = new Node(1)
+      node.next = node
+      //apply
+      const copy = deepClone(node)
+      //test
+      expect(copy).toBeInstanceOf(Node)
+      expect(copy).not.toBe(node)
+      expect(copy.next).toBe(copy)
+      expect(copy[immerable]).toBe(true)
+    })
+
+    it("copies an own \"__proto__\" key as a property, without changing the prototype", () => {
+      //setup
+      const parsed = JSON.parse('{"__proto__":{"x":1}}')
+      //apply
+      const copy = deepClone(parsed)
+      //test
+      expect(Object.keys(copy)).toStrictEqual(["__proto__"])
+      expect(Object.getPrototypeOf(copy)).toBe(Object.prototype)
+      expect(copy.x).toBeUndefined()
+    })
+  })
+
+  describe("deepMerge()", () => {
+    it("ignores the \"__proto__\", \"constructor\" and \"prototype\" keys of the source", () => {
+      //setup
+      const payload = JSON.parse('{"__proto__":{"polluted":"yes"},"constructor":{"prototype":{"polluted":"yes"}},"b":2}')
+      //apply
+      const merged = deepMerge({ a: 1 }, payload)
+      //test
+      expect(Object.prototype).not.toHaveProperty("polluted")
+      expect(merged).toStrictEqual({ a: 1, b: 2 })
+      expect(Object.getPrototypeOf(merged)).toBe(Object.prototype)
+    })
+
+    it("merges objects recursively without mutating them", () => {
+      //setup
+      const target = { a: { x: 1 }, b: 1, list: [1] }
+      const source = { a: { y: 2 }, b: undefined, list: [2] }
+      //apply
+      const merged = deepMerge(target, source)
+      //test
+      expect(merged).toStrictEqual({ a: { x: 1, y: 2 }, b: 1, list: [2] })
+      expect(target).toStrictEqual({ a: { x: 1 }, b: 1, list: [1] })
+      expect(merged.a).not.toBe(target.a)
+    })
+
+    it("uses the merge strategies of the options for arrays, Maps and Sets", () => {
+      //setup
+      const target = { list: [{ a: 1 }, 2], map: new Map([["k", { a: 1 }]]), set: new Set([1]) }
+      const source = { list: [{ b: 2 }], map: new Map([["k", { b: 2 }]]), set: new Set([2]) }
+      //test
+      expect(deepMerge(target, source, { arrays: "concat" }).list).toStrictEqual([{ a: 1 }, 2, { b: 2 }])
+      expect(deepMerge(target, source, { arrays: "merge" }).list).toStrictEqual([{ a: 1, b: 2 }, 2])
+      expect(deepMerge(target, source).map).toStrictEqual(new Map([["k", { a: 1, b: 2 }]]))
+      expect(deepMerge(target, source, { maps: "replace" }).map).toStrictEqual(new Map([["k", { b: 2 }]]))
+      expect(deepMerge(target, source).set).toStrictEqual(new Set([1, 2]))
+      expect(deepMerge(target, source, { sets: "replace" }).set).toStrictEqual(new Set([2]))
+    })
+
+    it("merges the entries of Maps sharing an object key into a single entry", () => {
+      //setup
+      const key = { id: 1 }
+      const target = new Map([[key, { a: 1 }]])
+      const source = new Map([[key, { b: 2 }]])
+      //apply
+      const merged = deepMerge(target, source)
+      //test
+      expect(merged.size).toBe(1)
+      expect(Array.from(merged.values())).toStrictEqual([{ a: 1, b: 2 }])
+      expect(target).toStrictEqual(new Map([[key, { a: 1 }]]))
+    })
+  })
+
+  describe("deepDiff()", () => {
+    it("lists the changes by path", () => {
+      //setup
+      const a = { name: "a", tags: ["x", "y", "z"], meta: new Map([["k1", 1], ["k2", 2]]), ids: new Set([1, 2]) }
+      const b = { name: "b", tags: ["x"], meta: new Map([["k1", 1], ["k3", 3]]), ids: new Set([2, 3]), extra: true }
+      //apply
+      const changes = deepDiff(a, b)
+      //test
+      expect(changes).toStrictEqual([
+        { op: "replace", path: ["name"], value: "b", oldValue: "a" },
+        { op: "remove", path: ["tags", 2], oldValue: "z" },
+        { op: "remove", path: ["tags", 1], oldValue: "y" },
+        { op: "remove", path: ["meta", "k2"], oldValue: 2 },
+        { op: "add", path: ["meta", "k3"], value: 3 },
+        { op: "remove", path: ["ids", 1], oldValue: 1 },
+        { op: "add", path: ["ids", 3], value: 3 },
+        { op: "add", path: ["extra"], value: true },
+      ])
+    })
+
+    it("returns no change for deep equal values, and replaces values of different kinds", () => {
+      expect(deepDiff({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toStrictEqual([])
+      expect(deepDiff({ a: [1] }, { a: { 0: 1 } })).toStrictEqual([{ op: "replace", path: ["a"], value: { 0: 1 }, oldValue: [1] }])
+    })
+  })
+})
+
+describe("immutable helpers function tests", () => {
+  describe("copyOnWriteWithPatches()", () => {
+    it("returns the new state with the patches and the inverse patches", () => {
+      //setup
+      const obj = { x: 5, list: [1] }
+      //apply
+      const { state, patches, inversePatches } = copyOnWriteWithPatches(obj, draft => { draft.x = 1; draft.list.push(2) })
+      //test
+      expect(state).toStrictEqual({ x: 1, list: [1, 2] })
+      expect(obj).toStrictEqual({ x: 5, list: [1] })
+      expect(applyPatches(obj, patches)).toStrictEqual(state)
+      expect(applyPatches(state, inversePatches)).toStrictEqual(obj)
+    })
+  })
+
+  describe("createHistory()", () => {
+    it("updates the state with copy-on-write, and undoes/redoes the updates", () => {
+      //setup
+      const initial = { todos: ["a"] }
+      const history = createHistory(initial)
+      //apply and test
+      history.update(draft => { draft.todos.push("b") })
+      history.update(draft => { draft.todos[0] = "A" })
+      expect(history.state).toStrictEqual({ todos: ["A", "b"] })
+      expect(initial).toStrictEqual({ todos: ["a"] })
+
+      expect(history.undo()).toStrictEqual({ todos: ["a", "b"] })
+      expect(history.undo()).toStrictEqual({ todos: ["a"] })
+      expect(history.canUndo).toBe(false)
+      expect(history.redo()).toStrictEqual({ todos: ["a", "b"] })
+      expect(history.canRedo).toBe(true)
+
+      history.update(draft => { draft.todos.pop() })
+      expect(history.canRedo).toBe(false)
+    })
+
+    it("works with Maps, Sets and classes with `[immerable]`", () => {
+      //setup
+      class Cart {
+        [immerable] = true;
+        items = new Map<string, number>();
+        tags = new Set<string>();
+      }
+      const history = createHistory(new Cart())
+      //apply
+      history.update(draft => { draft.items.set("apple", 2); draft.tags.add("fruit") })
+      history.update(draft => { draft.items.set("apple", 3) })
+      history.undo()
+      //test
+      expect(history.state).toBeInstanceOf(Cart)
+      expect(history.state.items).toStrictEqual(new Map([["apple", 2]]))
+      history.undo()
+      expect(history.state.items.size).toBe(0)
+      expect(history.state.tags.size).toBe(0)
+    })
+
+    it("keeps at most `limit` undo steps, and doesn't record updates changing nothing", () => {
+      //setup
+      const history = createHistory({ count: 0 }, { limit: 2 })
+      //apply
+      history.update(draft => { draft.count = 1 })
+      history.update(draft => { draft.count = 2 })
+      history.update(draft => { draft.count = 3 })
+      history.update(draft => { draft.count = 3 })
+      history.undo(); history.undo()
+      //test
+      expect(history.state).toStrictEqual({ count: 1 })
+      expect(history.canUndo).toBe(false)
+    })
+
+    it("groups the updates of a transaction in one history entry, and notifies the subscribers once", () => {
+      //setup
+      const history = createHistory({ list: [] as Array<number> })
+      const listener = jest.fn()
+      const unsubscribe = history.subscribe(listener)
+      //apply
+      history.transaction(() => {
+        history.update(draft => { draft.list.push(1) })
+        history.update(draft => { draft.list.push(2) })
+      })
+      //test
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledWith({ list: [1, 2] })
+      expect(history.undo()).toStrictEqual({ list: [] })
+      unsubscribe()
+      history.redo()
+      expect(listener).toHaveBeenCalledTimes(2)
+    })
+
+    it("reverts the updates of a transaction which throws", () => {
+      //setup
+      const history = createHistory({ count: 0 })
+      //apply
+      expect(() => history.transaction(() => {
+        history.update(draft => { draft.count = 1 })
+        throw new Error("invalid")
+      })).toThrow("invalid")
+      //test
+      expect(history.state).toStrictEqual({ count: 0 })
+      expect(history.canUndo).toBe(false)
+    })
+  })
+
+  describe("toJsonPatch() and fromJsonPatch()", () => {
+    it("converts immer patches to JSON Patch, escaping the pointers, for objects, arrays, Maps and Sets", () => {
+      //setup
+      const obj = { "a/b": { "c~d": 1 }, list: [1, 2], map: new Map([[1, "one"]]), set: new Set(["x"]) }
+      const { patches, inversePatches, state } = copyOnWriteWithPatches(obj, draft => {
+        draft["a/b"]["c~d"] = 2
+        draft.list.pop()
+        draft.map.set(1, "uno")
+        draft.set.add("y")
+      })
+      //apply
+      const jsonPatch = toJsonPatch(patches, obj)
+      //test
+      expect(jsonPatch).toStrictEqual([
+        { op: "replace", path: "/a~1b/c~0d", value: 2 },
+        { op: "remove", path: "/list/1" },
+        { op: "replace", path: "/map/1", value: "uno" },
+        { op: "add", path: "/set/-", value: "y" },
+      ])
+      expect(applyJsonPatch(obj, jsonPatch)).toStrictEqual(state)
+      expect(applyJsonPatch(state, toJsonPatch(inversePatches, state))).toStrictEqual(obj)
+    })
+
+    it("converts JSON Patch to immer patches, finding the Map keys from the path segments", () => {
+      //setup
+      const obj = { map: new Map([[1, "one"]]) }
+      //apply
+      const patches = fromJsonPatch([{ op: "replace", path: "/map/1", value: "uno" }], obj)
+      //test
+      expect(patches).toStrictEqual([{ op: "replace", path: ["map", 1], value: "uno" }])
+    })
+  })
+
+  describe("applyJsonPatch()", () => {
+    it("applies the operations with copy-on-write", () => {
+      //setup
+      const obj = { a: { b: 1 }, untouched: { c: 2 }, list: ["x", "y"] }
+      //apply
+      const result = applyJsonPatch(obj, [
+        { op: "test", path: "/a/b", value: 1 },
+        { op: "add", path: "/list/1", value: "inserted" },
+        { op: "move", from: "/a/b", path: "/moved" },
+        { op: "copy", from: "/list/0", path: "/copied" },
+        { op: "remove", path: "/list/2" },
+      ])
+      //test
+      expect(result).toStrictEqual({ a: {}, untouched: { c: 2 }, list: ["x", "inserted"], moved: 1, copied: "x" })
+      expect(obj).toStrictEqual({ a: { b: 1 }, untouched: { c: 2 }, list: ["x", "y"] })
+      expect(result.untouched).toBe(obj.untouched)
+    })
+
+    it("throws when a test operation fails or a path doesn't exist", () => {
+      expect(() => applyJsonPatch({ a: 1 }, [{ op: "test", path: "/a", value: 2 }])).toThrow('test failed at "/a"')
+      expect(() => applyJsonPatch({ a: 1 }, [{ op: "add", path: "/b/c", value: 2 }])).toThrow("doesn't exist")
+    })
+
+    it("throws when the last segment of the path doesn't exist, except for add", () => {
+      //setup
+      const obj = { a: 1, list: [1], map: new Map([["k", 1]]) }
+      //test
+      expect(() => applyJsonPatch(obj, [{ op: "remove", path: "/b" }])).toThrow('path "/b" doesn\'t exist')
+      expect(() => applyJsonPatch(obj, [{ op: "replace", path: "/b", value: 2 }])).toThrow('path "/b" doesn\'t exist')
+      expect(() => applyJsonPatch(obj, [{ op: "replace", path: "/list/1", value: 2 }])).toThrow('path "/list/1" doesn\'t exist')
+      expect(() => applyJsonPatch(obj, [{ op: "remove", path: "/map/x" }])).toThrow('path "/map/x" doesn\'t exist')
+      expect(() => applyJsonPatch(obj, [{ op: "test", path: "/toString", value: undefined }])).toThrow('path "/toString" doesn\'t exist')
+      expect(() => applyJsonPatch(obj, [{ op: "move", from: "/b", path: "/c" }])).toThrow('path "/b" doesn\'t exist')
+      expect(() => applyJsonPatch(obj, [{ op: "copy", from: "/b", path: "/c" }])).toThrow('path "/b" doesn\'t exist')
+      expect(applyJsonPatch(obj, [{ op: "add", path: "/b", value: 2 }])).toStrictEqual({ ...obj, b: 2 })
+    })
+
+    it("throws when move or copy has no from", () => {
+      //test
+      expect(() => applyJsonPatch({ a: 1 }, [{ op: "move", path: "/b" }])).toThrow('applyJsonPatch: "move" operation without "from"')
+      expect(() => applyJsonPatch({ a: 1 }, [{ op: "copy", path: "/b" }])).toThrow('applyJsonPatch: "copy" operation without "from"')
+    })
+  })
+
+  describe("getIn() / hasIn()", () => {
+    it("reads through objects, arrays, Maps and Sets", () => {
+      //setup
+      const state = { users: [{ name: "Ann", tags: new Set(["admin"]) }], cart: new Map([["apple", 2]]) }
+      //test
+      expect(getIn(state, ["users", 0, "name"])).toBe("Ann")
+      expect(getIn(state, ["cart", "apple"])).toBe(2)
+      expect(getIn(state, ["users", 0, "tags", "admin"])).toBe("admin")
+      expect(getIn(state, ["users", 1, "name"])).toBeUndefined()
+      expect(hasIn(state, ["cart", "apple"])).toBe(true)
+      expect(hasIn(state, ["cart", "pear"])).toBe(false)
+      expect(hasIn(state, ["users", 0, "tags", "guest"])).toBe(false)
+    })
+
+    it("ignores the inherited properties, and rejects the invalid paths at compile time", () => {
+      //setup
+      const state = { user: { name: "Ann" } }
+      //test
+      // @ts-expect-error "toString" is inherited, not an own key of `user`
+      expect(hasIn(state, ["user", "toString"])).toBe(false)
+      // @ts-expect-error "toString" is inherited, not an own key of `user`
+      expect(getIn(state, ["user", "toString"])).toBeUndefined()
+      // @ts-expect-error "age" is not a key of `user`
+      expect(getIn(state, ["user", "age"])).toBeUndefined()
+    })
+  })
+
+  describe("setIn() / updateIn()", () => {
+    it("copies only the structs along the path", () => {
+      //setup
+      const state = { a: { b: 1 }, untouched: { c: 2 }, cart: new Map([["apple", 2]]) }
+      //apply
+      const set = setIn(state, ["a", "b"], 5)
+      const updated = updateIn(state, ["cart", "apple"], (qty) => qty + 1)
+      //test
+      expect(set).toStrictEqual({ a: { b: 5 }, untouched: { c: 2 }, cart: new Map([["apple", 2]]) })
+      expect(set.untouched).toBe(state.untouched)
+      expect(set.cart).toBe(state.cart)
+      expect(updated.cart.get("apple")).toBe(3)
+      expect(updated.a).toBe(state.a)
+      expect(state.a.b).toBe(1)
+      expect(state.cart.get("apple")).toBe(2)
+    })
+
+    it("returns the same reference when nothing changes", () => {
+      //setup
+      const state = { a: { b: 1 } }
+      //test
+      expect(setIn(state, ["a", "b"], 1)).toBe(state)
+    })
+
+    it("creates missing intermediates and keeps custom prototypes", () => {
+      //setup
+      class Point { constructor(public x: number, public y: number) { } }
+      const state: { p: Point, extra?: { deep?: { value?: number } } } = { p: new Point(1, 2) }
+      //apply
+      const moved = setIn(state, ["p", "x"], 10)
+      const created = setIn(state, ["extra", "deep", "value"], 3)
+      //test
+      expect(moved.p).toBeInstanceOf(Point)
+      expect(moved.p.x).toBe(10)
+      expect(state.p.x).toBe(1)
+      expect(created.extra).toStrictEqual({ deep: { value: 3 } })
+    })
+
+    it("replaces a Set value in place", () => {
+      //setup
+      const state = { tags: new Set(["a", "b", "c"]) }
+      //apply
+      const result = updateIn(state, ["tags", "b"], (tag) => tag.toUpperCase())
+      //test
+      expect([...result.tags]).toStrictEqual(["a", "B", "c"])
+      expect([...state.tags]).toStrictEqual(["a", "b", "c"])
+    })
+  })
+
+  describe("deleteIn()", () => {
+    it("removes object keys, array elements, Map keys and Set values", () => {
+      //setup
+      const state = { a: { b: 1, c: 2 }, list: [1, 2, 3], map: new Map([["k", 1]]), set: new Set([1, 2]) }
+      //test
+      expect(deleteIn(state, ["a", "b"]).a).toStrictEqual({ c: 2 })
+      expect(deleteIn(state, ["list", 1]).list).toStrictEqual([1, 3])
+      expect(deleteIn(state, ["map", "k"]).map.size).toBe(0)
+      expect([...deleteIn(state, ["set", 1]).set]).toStrictEqual([2])
+      expect(deleteIn(state, ["map", "missing"])).toBe(state)
+      expect(state).toStrictEqual({ a: { b: 1, c: 2 }, list: [1, 2, 3], map: new Map([["k", 1]]), set: new Set([1, 2]) })
+    })
+  })
+})
+
+describe("library configuration function tests", () => {
+  afterEach(() => {
+    configure({ autoFreeze: true, strict: false })
+  })
+
+  describe("configure()", () => {
+    it("freezes the values returned by the copy-on-write helpers by default", () => {
+      //apply
+      const obj = addToObjIfKeyAbsent({ a: { b: 1 } }, "c", 2)
+      const map = addToMapIfKeyAbsent(new Map([["a", 1]]), "b", 2)
+      const grouped = extractKeysFrom([{ key: "k", name: "x" }])
+      //test
+      expect(getConfig()).toStrictEqual({ autoFreeze: true, strict: false })
+      expect(Object.isFrozen(obj)).toBe(true)
+      expect(() => (map as Map<string, number>).set("c", 3)).toThrow()
+      expect(Object.isFrozen(grouped)).toBe(true)
+      expect(Object.isFrozen(grouped.k)).toBe(true)
+      expect(Object.isFrozen(setIn({ a: { b: 1 } }, ["a", "b"], 2).a)).toBe(true)
+    })
+
+    it("doesn't freeze the returned values when autoFreeze is off", () => {
+      //setup
+      configure({ autoFreeze: false })
+      //apply
+      const obj = copyOnWrite({ a: 1 }, draft => { draft.a = 2 })
+      const set = setIn({ a: { b: 1 } }, ["a", "b"], 2)
+      //test
+      expect(Object.isFrozen(obj)).toBe(false)
+      expect(Object.isFrozen(set)).toBe(false)
+    })
+
+    it("deep-freezes the inputs in strict mode, so that mutations of the shared state throw", () => {
+      //setup
+      configure({ strict: true })
+      const state = { nested: { x: 1 }, tags: new Set(["a"]) }
+      //apply
+      copyOnWrite(state, draft => { draft.nested.x = 2 })
+      //test
+      expect(() => { state.nested.x = 3 }).toThrow(TypeError)
+      expect(() => state.tags.add("b")).toThrow()
+    })
+
+    it("doesn't freeze the inputs when not in strict mode", () => {
+      //setup
+      const state = { nested: { x: 1 } }
+      //apply
+      copyOnWrite(state, draft => { draft.nested.x = 2 })
+      state.nested.x = 3
+      //test
+      expect(state.nested.x).toBe(3)
+    })
+  })
+})
+
+describe("serialization function tests", () => {
+  describe("mapToObj() and objToMap()", () => {
+    it("converts the string, number and symbol keys", () => {
+      //setup
+      const sym = Symbol("s")
+      //apply
+      const obj = mapToObj(new Map<string | number | symbol, number>([["a", 1], [2, 2], [sym, 3]]))
+      //test
+      expect(obj).toStrictEqual({ a: 1, 2: 2, [sym]: 3 })
+      expect(objToMap(obj)).toStrictEqual(new Map<string | symbol, number>([["2", 2], ["a", 1], [sym, 3]]))
+    })
+
+    it("rejects or skips the invalid keys", () => {
+      //setup
+      const withObjectKey = new Map<any, number>([[{}, 1], ["a", 2]])
+      const withDuplicate = new Map<string | number, number>([[1, 1], ["1", 2]])
+      //test
+      expect(() => mapToObj(withObjectKey)).toThrow("mapToObj: the key of type plainObject can't be an object key")
+      expect(() => mapToObj(withDuplicate)).toThrow("mapToObj: the key 1 is duplicated")
+      expect(mapToObj(withObjectKey, { onInvalidKey: "skip" })).toStrictEqual({ a: 2 })
+      expect(mapToObj(withDuplicate, { onInvalidKey: "skip" })).toStrictEqual({ 1: 1 })
+    })
+
+    it("keeps a \"__proto__\" key as a property", () => {
+      //apply
+      const obj = mapToObj(new Map([["__proto__", { isAdmin: true }]]))
+      //test
+      expect(Object.keys(obj)).toStrictEqual(["__proto__"])
+      expect(Object.getPrototypeOf(obj)).toBe(Object.prototype)
+    })
+  })
+
+  describe("serialize() and deserialize()", () => {
+    it("round-trips the values not supported by JSON", () => {
+      //setup
+      const value = {
+        map: new Map<any, any>([[{ id: 1 }, new Set([BigInt(1), BigInt(2)])], ["date", new Date(0)]]),
+        list: [undefined, NaN, -Infinity, -0, 1],
+        missing: undefined,
+        nested: { $type: "Map", value: 1 },
+      }
+      //apply
+      const result = deserialize(serialize(value))
+      //test
+      expect(result).toStrictEqual(value)
+      expect(Object.is(result.list[3], -0)).toBe(true)
+      expect("missing" in result).toBe(true)
+      expect(deserialize(serialize(new Date("nope"))).getTime()).toBeNaN()
+    })
+
+    it("reads a \"__proto__\" key as a property, without changing the prototype", () => {
+      //apply
+      const result = deserialize('{"__proto__":{"isAdmin":true}}')
+      //test
+      expect(result.isAdmin).toBeUndefined()
+      expect(Object.keys(result)).toStrictEqual(["__proto__"])
+      expect(Object.getPrototypeOf(result)).toBe(Object.prototype)
+    })
+
+    it("round-trips the registered classes", () => {
+      //setup
+      class Money {
+        constructor(public amount: number, public currency: string) { }
+        format() { return `${this.amount} ${this.currency}` }
+      }
+      class Wallet {
+        coins = new Set<string>()
+      }
+      const unregisterMoney = registerSerializable("Money", Money, {
+        toJSON: (money) => [money.amount, money.currency], fromJSON: ([amount, currency]) => new Money(amount, currency)
+      })
+      const unregisterWallet = registerSerializable("Wallet", Wallet)
+      const wallet = new Wallet()
+      wallet.coins.add("euro")
+      //apply
+      const json = serialize({ price: new Money(5, "EUR"), wallet })
+      const result = deserialize(json)
+      unregisterMoney()
+      unregisterWallet()
+      //test
+      expect(result.price).toBeInstanceOf(Money)
+      expect(result.price.format()).toBe("5 EUR")
+      expect(result.wallet).toBeInstanceOf(Wallet)
+      expect(result.wallet.coins).toStrictEqual(new Set(["euro"]))
+      expect(() => deserialize(json)).toThrow('unknown type tag "Money"')
+    })
+
+    it("rejects the type tags already used", () => {
+      expect(() => registerSerializable("Map", class { })).toThrow('the type tag "Map" is already used')
+    })
+  })
+
+  describe("jsonReplacer() and jsonReviver()", () => {
+    it("can be passed to JSON.stringify and JSON.parse", () => {
+      //setup
+      const value = { tags: new Set(["a"]), at: new Date(0), big: BigInt(10) }
+      //apply
+      const result = JSON.parse(JSON.stringify(value, jsonReplacer), jsonReviver)
+      //test
+      expect(result).toStrictEqual(value)
+    })
+  })
+})
+
+describe("runtime types and schemas function tests", () => {
+  describe("typeOf()", () => {
+    it("returns a discriminated name for each type", () => {
+      //setup
+      class Point { }
+      //test
+      expect([null, undefined, 1, "a", true, () => 1].map(typeOf)).toStrictEqual(["null", "undefined", "number", "string", "boolean", "function"])
+      expect([[], new Uint8Array(1), new Map(), new Set(), new Date(), /a/, new Error()].map(typeOf))
+        .toStrictEqual(["array", "typedArray", "map", "set", "date", "regexp", "error"])
+      expect([{}, Object.create(null), new Point()].map(typeOf)).toStrictEqual(["plainObject", "plainObject", "classInstance"])
+    })
+
+    it("is used by the helpers to fail fast", () => {
+      //test
+      // @ts-expect-error a number is not a collection
+      expect(() => countByWithMap(42, (x) => x)).toThrow("countByWithMap: expected array | set | map | plainObject | classInstance, got number")
+      // @ts-expect-error a string is not a collection
+      expect(() => groupByWithObj("abc", (x) => x)).toThrow(TypeError)
+      expect(() => objToMap(null)).toThrow("objToMap: expected plainObject | classInstance, got null")
+      expect(() => addToObjIfKeyAbsent(new Map(), "a", 1)).toThrow(TypeError)
+    })
+  })
+
+  describe("s (schema builder)", () => {
+    //setup
+    const user = s.object({
+      name: s.string().refine((name) => name.length > 0, "must not be empty"),
+      role: s.union(s.literal("admin"), s.literal("user")),
+      tags: s.set(s.string()).optional(),
+      scores: s.map(s.string(), s.number().nullable()),
+      friends: s.array(s.object({ id: s.number() })),
+    })
+
+    it("accepts the valid values", () => {
+      //setup
+      const value = { name: "Ann", role: "admin", scores: new Map([["math", null]]), friends: [{ id: 1 }], extra: true }
+      //test
+      expect(user.parse(value)).toBe(value)
+      expect(user.is({ ...value, tags: new Set(["a"]) })).toBe(true)
+    })
+
+    it("reports all the issues with their paths", () => {
+      //setup
+      const value = { name: "", role: "guest", tags: new Set([1]), scores: new Map<any, any>([["math", NaN], [2, 1]]), friends: [{ id: "1" }] }
+      //apply
+      const result = user.safeParse(value)
+      const { error } = result as { success: false, error: SchemaError }
+      //test
+      expect(result.success).toBe(false)
+      expect(error).toBeInstanceOf(SchemaError)
+      expect(error.issues.map((issue) => issue.path)).toStrictEqual([["name"], ["role"], ["tags", 0], ["scores", "math"], ["scores", 2], ["friends", 0, "id"]])
+      expect(error.message).toBe([
+        "name: must not be empty",
+        'role: expected "admin" | "user", got "guest"',
+        "tags[0]: expected string, got number",
+        "scores.math: expected number, got NaN",
+        "scores[2]: invalid key: expected string, got number",
+        "friends[0].id: expected number, got string",
+      ].join("\n"))
+    })
+
+    it("throws a SchemaError from parse", () => {
+      //test
+      expect(() => s.array(s.date()).parse([new Date(0), "2024"])).toThrow("[1]: expected date, got string")
+      expect(() => s.instanceOf(Map).parse({})).toThrow("(root): expected Map, got plainObject")
+    })
+  })
+})
+
+describe("statistics function tests", () => {
+  describe("sum(), mean(), arithmeticMean(), weightedMean(), median() and mode()", () => {
+    it("compute the statistics, with an optional pluck function", () => {
+      //setup
+      const sales = [{ price: 10, qty: 1 }, { price: 20, qty: 3 }, { price: 60, qty: 1 }]
+      //test
+      expect(sum([1, 2, 3])).toBe(6)
+      expect(sum(sales, (sale) => sale.price)).toBe(90)
+      expect(arithmeticMean(sales, (sale) => sale.price)).toBe(30)
+      expect(arithmeticMean([1, 2, 2])).toBe(5 / 3)
+      expect(mean({ arr: [1, 2, 2] })).toBe(1.67)
+      expect(mean({ arr: sales, pluck: (sale) => sale.price })).toBe(30)
+      expect(weightedMean(sales, (sale) => sale.price, (sale) => sale.qty)).toBe(26)
+      expect(median([3, 1, 2])).toBe(2)
+      expect(median([4, 1, 3, 2])).toBe(2.5)
+      expect(mode([1, 2, 2, 3, 3])).toStrictEqual([2, 3])
+      expect(mode(sales, (sale) => sale.qty)).toStrictEqual([1])
+    })
+
+    it("follow the empty input policy", () => {
+      //test
+      expect(sum([])).toBe(0)
+      expect(arithmeticMean([])).toBeUndefined()
+      expect(mean({ arr: [] })).toBe(0) //kept from the first versions of `mean`
+      expect(meanOf<number>()([])).toBeUndefined()
+      expect(weightedMean([], (x) => x, (x) => x)).toBeUndefined()
+      expect(median([])).toBeUndefined()
+      expect(mode([])).toStrictEqual([])
+      expect(quantile([], 0.5)).toBeUndefined()
+      expect(variance([])).toBeUndefined()
+      expect(variance([1], undefined, { sample: true })).toBeUndefined()
+      expect(minBy([], (x) => x)).toBeUndefined()
+      expect(extent([])).toBeUndefined()
+      expect(min([])).toBeNull() //kept from the first versions of `min`/`max`
+      expect(max([])).toBeNull()
+    })
+  })
+
+  describe("quantile() and percentiles()", () => {
+    it("interpolate linearly between the closest values", () => {
+      //test
+      expect(quantile([1, 2, 3, 4], 0.25)).toBe(1.75)
+      expect(quantile([{ ms: 10 }, { ms: 30 }], 1, (x) => x.ms)).toBe(30)
+      expect(percentiles([5, 1, 4, 2, 3], [0, 50, 90])).toStrictEqual([1, 3, 4.6])
+      expect(() => quantile([1], 1.5)).toThrow(RangeError)
+    })
+  })
+
+  describe("variance() and stddev()", () => {
+    it("compute the population or the sample statistics", () => {
+      //setup
+      const arr = [2, 4, 4, 4, 5, 5, 7, 9]
+      //test
+      expect(variance(arr)).toBe(4)
+      expect(stddev(arr)).toBe(2)
+      expect(variance(arr, undefined, { sample: true })).toBeCloseTo(32 / 7)
+      expect(stddev(arr.map((x) => ({ x })), (point) => point.x, { sample: true })).toBeCloseTo(Math.sqrt(32 / 7))
+    })
+  })
+
+  describe("minBy(), maxBy(), extent(), min() and max()", () => {
+    it("return the elements, or the extreme values for extent", () => {
+      //setup
+      const points = [{ x: 0 }, { x: -2 }, { x: 5 }, { x: 5 }]
+      //test
+      expect(minBy(points, (point) => point.x)).toBe(points[1])
+      expect(maxBy(points, (point) => point.x)).toBe(points[2])
+      expect(extent(points, (point) => point.x)).toStrictEqual([-2, 5])
+      expect(min([3, 0, 5])).toBe(0)
+      expect(max([0, -1])).toBe(0)
+    })
+  })
+
+  describe("runningStats()", () => {
+    it("updates the statistics at each value added", () => {
+      //setup
+      const stats = runningStats<{ ms: number }>((x) => x.ms)
+      //apply
+      const before = stats.mean
+      stats.add({ ms: 2 }, { ms: 4 }, { ms: 4 }, { ms: 4 }).add({ ms: 5 }, { ms: 5 }, { ms: 7 }, { ms: 9 })
+      //test
+      expect(before).toBeUndefined()
+      expect([stats.count, stats.sum, stats.mean, stats.min, stats.max]).toStrictEqual([8, 40, 5, 2, 9])
+      expect(stats.variance()).toBe(4)
+      expect(stats.stddev()).toBe(2)
+      expect(stats.variance({ sample: true })).toBeCloseTo(32 / 7)
+    })
+  })
+})
+
+describe("decimal arithmetic function tests", () => {
+  describe("Decimal", () => {
+    it("computes without floating point errors", () => {
+      //test
+      expect(Decimal.from("0.1").add("0.2").toString()).toBe("0.3")
+      expect(Decimal.from(0.1).add(0.2).toNumber()).toBe(0.3)
+      expect(Decimal.from("1.50").sub("2").toString()).toBe("-0.50")
+      expect(Decimal.from("1.5").mul("-0.02").toString()).toBe("-0.030")
+      expect(Decimal.from("10").div(3, { scale: 4 }).toString()).toBe("3.3333")
+      expect(Decimal.from("2").div("0.5").toString()).toBe("4.0")
+      expect(Decimal.from("1e-3").toString()).toBe("0.001")
+      expect(Decimal.from(BigInt(12)).toString()).toBe("12")
+      expect(Decimal.fromUnits(BigInt(1250), 2).toString()).toBe("12.50")
+      expect(Decimal.from("1.50").equals("1.5")).toBe(true)
+      expect(Decimal.from("-2").compare("1")).toBe(-1)
+    })
+
+    it("rounds with each rounding mode", () => {
+      //setup
+      const roundAll = (value: string) => (["half-up", "half-away", "half-even", "floor", "ceil", "truncate"] as const)
+        .map((mode) => Decimal.from(value).round(0, mode).toString())
+      //test
+      expect(roundAll("2.5")).toStrictEqual(["3", "3", "2", "2", "3", "2"])
+      expect(roundAll("-2.5")).toStrictEqual(["-2", "-3", "-2", "-3", "-2", "-2"])
+      expect(roundAll("3.5")).toStrictEqual(["4", "4", "4", "3", "4", "3"])
+      expect(roundAll("-1.2")).toStrictEqual(["-1", "-1", "-1", "-2", "-1", "-1"])
+      expect(roundAll("-1.7")).toStrictEqual(["-2", "-2", "-2", "-2", "-1", "-1"])
+    })
+
+    it("rejects the invalid numbers and the division by zero", () => {
+      //test
+      expect(() => Decimal.from("1,5")).toThrow('Decimal: invalid number "1,5"')
+      expect(() => Decimal.from(NaN)).toThrow(Error)
+      expect(() => Decimal.from(1).div(0)).toThrow(RangeError)
+    })
+  })
+
+  describe("round() and mean()", () => {
+    it("round the decimal representation, with a rounding mode", () => {
+      //test
+      expect(round({ num: 1.005 })).toBe(1.01)
+      expect(round({ num: 2.345, mode: "half-even" })).toBe(2.34)
+      expect(round({ num: 1.239, nbOfFloatDigits: 1, mode: "floor" })).toBe(1.2)
+      expect(round({ num: -2.5, nbOfFloatDigits: 0 })).toBe(-2) //ties towards +∞ by default, like Math.round
+      expect(round({ num: -1.005 })).toBe(-1)
+      expect(round({ num: -2.5, nbOfFloatDigits: 0, mode: "half-away" })).toBe(-3)
+      expect(mean({ arr: [0.1, 0.2, 0.4], precise: true, rounded: false })).toBe(0.7 / 3)
+      expect(mean({ arr: [1.005, 1.005], mode: "truncate" })).toBe(1)
+    })
+
+    it("round to tens, hundreds... with a negative number of digits", () => {
+      //test
+      expect(round({ num: 1234, nbOfFloatDigits: -2 })).toBe(1200)
+      expect(round({ num: 1250, nbOfFloatDigits: -2, mode: "half-even" })).toBe(1200)
+      expect(Decimal.from("1234").round(-2).toString()).toBe("1200")
+      expect(Decimal.from("0.4").round(-1).toString()).toBe("0")
+      expect(Decimal.from("1234").div(2, { scale: -1 }).toString()).toBe("620")
+      expect(Decimal.from("1234").round(-2).add("5.5").toString()).toBe("1205.5")
+    })
+  })
+
+  describe("allocate() and splitEvenly()", () => {
+    it("split a total without losing cents", () => {
+      //test
+      expect(splitEvenly("100", 3).map(String)).toStrictEqual(["33.34", "33.33", "33.33"])
+      expect(allocate(10, [0.5, 0.3, 0.2]).map(String)).toStrictEqual(["5.00", "3.00", "2.00"])
+      expect(allocate("0.05", [3, 7]).map(String)).toStrictEqual(["0.02", "0.03"])
+      expect(allocate("-1", [1, 2], { scale: 0 }).map(String)).toStrictEqual(["0", "-1"])
+      expect(() => allocate(1, [0, 0])).toThrow(RangeError)
+    })
+  })
+})
+
+describe("number formatting function tests", () => {
+  //Intl uses no-break spaces (and narrow ones for the French thousand separators)
+  const withSpaces = (str: string) => str.replace(/\s/g, " ")
+
+  describe("formatNumber(), formatCurrency(), formatPercent() and formatCompact()", () => {
+    it("format in French by default", () => {
+      //test
+      expect(formatNumber(1234.5)).toBe("1\u202f234,5")
+      expect(withSpaces(formatCurrency(1234.5))).toBe("1 234,50 €")
+      expect(withSpaces(formatPercent(0.256))).toBe("25,6 %")
+      expect(withSpaces(formatCompact(1234567))).toBe("1,2 M")
+    })
+
+    it("accept a locale, Intl options and Decimals", () => {
+      //test
+      expect(formatNumber(1234.5, { locale: "en", minimumFractionDigits: 2 })).toBe("1,234.50")
+      expect(formatCurrency(9.99, "USD", { locale: "en" })).toBe("$9.99")
+      expect(formatNumber(Decimal.from("1.005"), { locale: "en", maximumFractionDigits: 2 })).toBe("1.01")
+    })
+  })
+
+  describe("formatBytes()", () => {
+    it("uses the largest fitting unit", () => {
+      //test
+      expect(withSpaces(formatBytes(512))).toBe("512 o")
+      expect(withSpaces(formatBytes(1536))).toBe("1,5 ko")
+      expect(formatBytes(3.2e9, { locale: "en" })).toBe("3.2 GB")
+    })
+
+    it("chooses the unit after rounding", () => {
+      //test
+      expect(withSpaces(formatBytes(999950))).toBe("1 Mo")
+      expect(withSpaces(formatBytes(999999))).toBe("1 Mo")
+      expect(withSpaces(formatBytes(999949))).toBe("999,9 ko")
+      expect(formatBytes(999999, { locale: "en", maxFractionDigits: 3 })).toBe("999.999 kB")
+    })
+  })
+
+  describe("parseLocaleNumber()", () => {
+    it("is the inverse of formatNumber", () => {
+      //test
+      expect(parseLocaleNumber(formatNumber(-1234567.89))).toBe(-1234567.89)
+      expect(parseLocaleNumber("1 234,5")).toBe(1234.5)
+      expect(parseLocaleNumber("1\u00a0234,5")).toBe(1234.5)
+      expect(parseLocaleNumber("1,234.5", "en")).toBe(1234.5)
+      expect(parseLocaleNumber("1.234,5", "de")).toBe(1234.5)
+      expect(parseLocaleNumber("12abc")).toBeNaN()
+    })
+
+    it("reads the digits of the locale and ignores the bidirectional marks", () => {
+      //test
+      expect(parseLocaleNumber(formatNumber(-1234567.5, { locale: "ar-EG" }), "ar-EG")).toBe(-1234567.5)
+      expect(parseLocaleNumber(formatNumber(-1234567.5, { locale: "fa" }), "fa")).toBe(-1234567.5)
+      expect(parseLocaleNumber("\u22121e\u22122", "en")).toBe(-0.01)
+    })
+  })
+})
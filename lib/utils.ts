@@ -1,10 +1,65 @@
 import { addHour, addMinute, addSecond, format, parse } from "@formkit/tempo";
-import { castDraft, current, Draft, enableMapSet, produce, setAutoFreeze } from "immer";
+import { applyPatches, castDraft, current, Draft, enableMapSet, enablePatches, freeze, Patch, produce, produceWithPatches, setAutoFreeze } from "immer";
 
 //-----------------------------------------
 // FUNCTIONAL PARADIGM FUNCTIONS
 //-------------------------------------------
 
+//types used for function signatures
+type Piped<T> = {
+  value: T,
+  to: <R, A extends Array<any>>(fn: (value: T, ...args: A) => R, ...args: A) => Piped<R>
+}
+
+type PipeStep = {
+  stepIdx: number,
+  fnName: string,
+  args: Array<any>,
+  input: any,
+  output: any
+}
+
+type TracedPiped<T> = {
+  value: T,
+  trace: Array<PipeStep>,
+  printTrace: (prefix?: string) => void,
+  to: <R, A extends Array<any>>(fn: (value: T, ...args: A) => R, ...args: A) => TracedPiped<R>
+}
+
+type pipeOptions = {
+  trace?: boolean
+}
+
+type AsyncPiped<T> = {
+  value: Promise<T>,
+  to: <R, A extends Array<any>>(fn: (value: T, ...args: A) => R, ...args: A) => AsyncPiped<Awaited<R>>
+}
+
+/**
+ * @author Antony Lao
+ * @description error thrown by a traced `pipe` when one of the piped functions throws.
+ *   The original error is kept in `cause`
+ * @note `trace` contains the steps that succeeded before the failing one
+ */
+export class PipeStepError extends Error {
+  stepIdx: number;
+  fnName: string;
+  args: Array<any>;
+  input: any;
+  cause: unknown;
+  trace: Array<PipeStep>;
+
+  constructor({ stepIdx, fnName, args, input, cause, trace }: Omit<PipeStep, "output"> & { cause: unknown, trace: Array<PipeStep> }) {
+    const causeMessage = cause instanceof Error ? cause.message : String(cause)
+    super(`pipe step ${stepIdx} (${fnName}) failed: ${causeMessage}`)
+    //needed to keep `instanceof` working when compiling classes extending Error to es5
+    Object.setPrototypeOf(this, PipeStepError.prototype)
+    this.name = "PipeStepError"
+    this.stepIdx = stepIdx; this.fnName = fnName; this.args = args; this.input = input
+    this.cause = cause; this.trace = trace
+  }
+}
+
 /**
  * @author Antony Lao (copied from Ian Grubb)
  * @ex ```
@@ -16,569 +71,4142 @@ import { castDraft, current, Draft, enableMapSet, produce, setAutoFreeze } from
  * @returns an object with key `value`, which contains the value transformed, 
  *   and a key `to` to use to pipe the functions
  * @note: use `.value` at the end of the pipeline to get the value back at the end
- * ```
- * ```
- * @last update: 19/07/2024; verified: 19/07/2024; tested: NO (simple enough)
+ * @note typed: the type of `.value` follows the return type of each function passed to `.to()`, 
+ *   and the extra arguments of `.to()` are checked against the function parameters
+ * @note debugging: with `pipe(value, { trace: true })`, each step (function name, arguments, input and output)
+ *   is recorded in `.trace`, `.printTrace()` prints it with `p`, and an error thrown by a step 
+ *   is rethrown as a `PipeStepError` carrying the step index and the input value
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
  */
-export const pipe = value => ({
-  value,
-  to: (fn, ...args) => pipe(fn(value, ...args))
-})
+export function pipe<T>(value: T): Piped<T>
+export function pipe<T>(value: T, options: pipeOptions & { trace: true }): TracedPiped<T>
+export function pipe<T>(value: T, options?: pipeOptions): Piped<T> | TracedPiped<T>
+export function pipe<T>(value: T, { trace = false }: pipeOptions = {}): Piped<T> | TracedPiped<T> {
+  if (trace) return tracedPipe(value, [])
+  return {
+    value,
+    to: (fn, ...args) => pipe(fn(value, ...args))
+  }
+}
 
-//------------------------------
-// CONCURRENCY PRIMITIVES (MODIFY THE ORDERING (for async) AND REPETITION OF FUNCTION CALLS) 
-//--------------------------------
+//the trace is copied on each step, so that branching from an intermediate pipe doesn't mix the traces
+function tracedPipe<T>(value: T, trace: Array<PipeStep>): TracedPiped<T> {
+  return {
+    value,
+    trace,
+    printTrace: (prefix = "pipe trace") => p(trace, prefix),
+    to: (fn, ...args) => {
+      const stepIdx = trace.length
+      const fnName = fn.name || "<anonymous>"
+      let output;
+      try {
+        output = fn(value, ...args)
+      } catch (error) {
+        throw new PipeStepError({ stepIdx, fnName, args, input: value, cause: error, trace })
+      }
+      return tracedPipe(output, trace.concat([{ stepIdx, fnName, args, input: value, output }]))
+    }
+  }
+}
 
 /**
  * @author Antony Lao
- * @description return a new function behaving as the original, but only applies 
- *   the function once
- * @notes the returned function return the same value as the original on first call, then
- *   returns `undefined`
- * @param fn : function passed (without any arguments)
- * @returns new function, which can only be applied once 
- * @last update: 19/07/2024; verified: 19/07/2024; tested: YES
+ * @description async version of `pipe`: each function passed to `.to()` can return a value or a Promise,
+ *   the next function receives the resolved value
+ * @ex ```
+ *     const user = await pipeAsync(userId)
+ *                         .to(fetchUser)          // returns a Promise
+ *                         .to((user) => user.name) // receives the resolved user
+ *                         .value                  // Promise of the name
+ *     ```
+ * @param value : a value or a Promise
+ * @returns an object with key `value`, which is a Promise of the value transformed, 
+ *   and a key `to` to use to pipe the functions
+ * @note if a function throws (or returns a rejected Promise), the following functions are not called
+ *   and `.value` is rejected with the error
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
  */
-export function justOnce(fn: Function) {
-  let alreadyCalled = false;
+export function pipeAsync<T>(value: T | PromiseLike<T>): AsyncPiped<T> {
+  const promise = Promise.resolve(value)
+  return {
+    value: promise,
+    to: <R, A extends Array<any>>(fn: (value: T, ...args: A) => R, ...args: A) =>
+      pipeAsync<Awaited<R>>(promise.then((resolved) => fn(resolved, ...args)) as Promise<Awaited<R>>)
+  }
+}
 
+/**
+ * @author Antony Lao
+ * @description point-free version of `pipe`: returns a new function applying the functions 
+ *   passed from left to right. The first function can take several arguments, the others only one
+ * @ex ```
+ *     const toSlug = flow(normalizeString, (str: string) => str.toLowerCase(), (str: string) => str.replace(/ /g, "-"))
+ *     toSlug("  Hello   World ") // => "hello-world"
+ *     ```
+ * @note with no function passed, returns the identity function
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function flow<A extends Array<any>, R1>(f1: (...args: A) => R1): (...args: A) => R1
+export function flow<A extends Array<any>, R1, R2>(f1: (...args: A) => R1, f2: (x: R1) => R2): (...args: A) => R2
+export function flow<A extends Array<any>, R1, R2, R3>(f1: (...args: A) => R1, f2: (x: R1) => R2, f3: (x: R2) => R3): (...args: A) => R3
+export function flow<A extends Array<any>, R1, R2, R3, R4>(f1: (...args: A) => R1, f2: (x: R1) => R2, f3: (x: R2) => R3, f4: (x: R3) => R4): (...args: A) => R4
+export function flow<A extends Array<any>, R1, R2, R3, R4, R5>(f1: (...args: A) => R1, f2: (x: R1) => R2, f3: (x: R2) => R3, f4: (x: R3) => R4, f5: (x: R4) => R5): (...args: A) => R5
+export function flow<A extends Array<any>, R1, R2, R3, R4, R5, R6>(f1: (...args: A) => R1, f2: (x: R1) => R2, f3: (x: R2) => R3, f4: (x: R3) => R4, f5: (x: R4) => R5, f6: (x: R5) => R6): (...args: A) => R6
+export function flow(...fns: Array<Function>): Function
+export function flow(...fns: Array<Function>) {
   return function (...args) {
-    if (alreadyCalled) return
-    alreadyCalled = true;
-    return fn(...args)
+    if (fns.length === 0) return args[0]
+    return fns.slice(1).reduce((acc, fn) => fn(acc), fns[0](...args))
   }
 }
 
 /**
  * @author Antony Lao
- * @description useful to coordinate parallel async calls by calling a callback function only when
- *   all async calls are finished
- * @use: ```const done = cut(3, doWhenEveryAsyncCallAreDone) 
- *          async function fn1(..args1) {
- *            ajax_call.then(() => done())
- *            ajax_call2.then(() => done())
- *          }```
- * @param limit : number of times to call the function returned by cut(), before calling callback()
- * @param callback : function called after n calls to function returned by cut()
- * @returns undefined
- * @last update: 19/07/2024; verified: 19/07/2024; tested: YES
+ * @description same as `flow`, but the functions are applied from right to left (mathematical composition)
+ * @ex ```
+ *     const inc = (x: number) => x + 1; const double = (x: number) => x * 2
+ *     compose(inc, double)(5) // => inc(double(5)) => 11
+ *     ```
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
  */
-export function cut(limit: number, callback: Function) {
-  let calls_finished = 0;
+export function compose<A extends Array<any>, R1>(f1: (...args: A) => R1): (...args: A) => R1
+export function compose<A extends Array<any>, R1, R2>(f2: (x: R1) => R2, f1: (...args: A) => R1): (...args: A) => R2
+export function compose<A extends Array<any>, R1, R2, R3>(f3: (x: R2) => R3, f2: (x: R1) => R2, f1: (...args: A) => R1): (...args: A) => R3
+export function compose<A extends Array<any>, R1, R2, R3, R4>(f4: (x: R3) => R4, f3: (x: R2) => R3, f2: (x: R1) => R2, f1: (...args: A) => R1): (...args: A) => R4
+export function compose<A extends Array<any>, R1, R2, R3, R4, R5>(f5: (x: R4) => R5, f4: (x: R3) => R4, f3: (x: R2) => R3, f2: (x: R1) => R2, f1: (...args: A) => R1): (...args: A) => R5
+export function compose<A extends Array<any>, R1, R2, R3, R4, R5, R6>(f6: (x: R5) => R6, f5: (x: R4) => R5, f4: (x: R3) => R4, f3: (x: R2) => R3, f2: (x: R1) => R2, f1: (...args: A) => R1): (...args: A) => R6
+export function compose(...fns: Array<Function>): Function
+export function compose(...fns: Array<Function>) {
+  return flow(...fns.slice().reverse())
+}
 
-  return function () {
-    calls_finished += 1;
-    if (calls_finished === limit) callback()
+/**
+ * @author Antony Lao
+ * @description async version of `flow`: each function can return a value or a Promise, 
+ *   the next function receives the resolved value. The returned function always returns a Promise
+ * @ex ```
+ *     const getUserName = flowAsync(fetchUser, (user: User) => user.name)
+ *     await getUserName(userId)
+ *     ```
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function flowAsync<A extends Array<any>, R1>(f1: (...args: A) => R1): (...args: A) => Promise<Awaited<R1>>
+export function flowAsync<A extends Array<any>, R1, R2>(f1: (...args: A) => R1, f2: (x: Awaited<R1>) => R2): (...args: A) => Promise<Awaited<R2>>
+export function flowAsync<A extends Array<any>, R1, R2, R3>(f1: (...args: A) => R1, f2: (x: Awaited<R1>) => R2, f3: (x: Awaited<R2>) => R3): (...args: A) => Promise<Awaited<R3>>
+export function flowAsync<A extends Array<any>, R1, R2, R3, R4>(f1: (...args: A) => R1, f2: (x: Awaited<R1>) => R2, f3: (x: Awaited<R2>) => R3, f4: (x: Awaited<R3>) => R4): (...args: A) => Promise<Awaited<R4>>
+export function flowAsync<A extends Array<any>, R1, R2, R3, R4, R5>(f1: (...args: A) => R1, f2: (x: Awaited<R1>) => R2, f3: (x: Awaited<R2>) => R3, f4: (x: Awaited<R3>) => R4, f5: (x: Awaited<R4>) => R5): (...args: A) => Promise<Awaited<R5>>
+export function flowAsync(...fns: Array<Function>): (...args: Array<any>) => Promise<any>
+export function flowAsync(...fns: Array<Function>) {
+  return function (...args) {
+    if (fns.length === 0) return Promise.resolve(args[0])
+    //we start the chain inside a Promise so that a synchronous throw in the first function rejects
+    const start = new Promise((resolve) => resolve(fns[0](...args)))
+    return fns.slice(1).reduce((acc: Promise<any>, fn) => acc.then((x) => fn(x)), start)
   }
 }
 
 //------------------------------
-// GENERAL DATA STRUCTURES HELPERS
+// CONCURRENCY PRIMITIVES (MODIFY THE ORDERING (for async) AND REPETITION OF FUNCTION CALLS) 
 //--------------------------------
-// from JS docs
-// Sequence generator function (commonly referred to as "range", e.g. Clojure, PHP, etc.)
-export const range = (start: number, stop: number, step: number = 1): number[] =>
-  Array.from({ length: (stop - start) / step + 1 }, (_, i) => start + i * step);
+
+type onlyNOptions = {
+  memoize?: boolean,
+  retryOnReject?: boolean
+}
+
+type ResettableFn<F extends (...args: Array<any>) => any> =
+  ((...args: Parameters<F>) => ReturnType<F> | undefined) & { reset: () => void }
 
 /**
  * @author Antony Lao
- * @param obj 
- * @returns 
+ * @description return a new function behaving as the original, but only applies 
+ *   the function once
+ * @notes the returned function return the same value as the original on first call, then
+ *   returns `undefined`, unless `memoize` is true: then it returns the value of the first call
+ * @notes for async functions, use `memoize: true` so that concurrent callers share the same Promise,
+ *   and `retryOnReject: true` to call the function again if the first Promise rejects (or the first call throws)
+ * @ex ```const init = justOnce(connectToDb, { memoize: true, retryOnReject: true })
+ *        await Promise.all([init(), init()]) // connectToDb called once```
+ * @param fn : function passed (without any arguments)
+ * @returns new function, which can only be applied once. `reset()` on it allows a new call
+ * @uses onlyN
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
  */
-export function toType(obj: any) {
-  return Object.prototype.toString.call(obj).toString()
+export function justOnce<F extends (...args: Array<any>) => any>(fn: F, options: onlyNOptions = {}): ResettableFn<F> {
+  return onlyN(1, fn, options)
 }
 
 /**
- * @description: checks if the obj passed is a literal or a custom object
- * @source https://javascriptweblog.wordpress.com/2011/08/08/fixing-the-javascript-typeof-operator/
- * @note doesn't give false positives for: null, undefined, array, new Date()
- * @param obj 
- * @returns  
- * @last update: 22/07/2024; verified: 22/07/2024; tested: NO (simple enough)
+ * @author Antony Lao
+ * @description generalization of `justOnce`: return a new function behaving as the original for the 
+ *   first `n` calls. The subsequent calls return `undefined`, or the value of the last call if `memoize` is true
+ * @note with `retryOnReject`, a call which throws or returns a rejected Promise doesn't count in the `n` calls
+ * @param n : number of calls applying the function
+ * @param fn : function passed
+ * @returns new function, with a `reset()` method to start counting the calls again
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
  */
-export function isObject(obj: any) {
-  return toType(obj) === "[object Object]"
+export function onlyN<F extends (...args: Array<any>) => any>(n: number, fn: F,
+  { memoize = false, retryOnReject = false }: onlyNOptions = {}): ResettableFn<F> {
+  let callsDone = 0
+  let lastResult: ReturnType<F> | undefined;
+  let generation = 0 //incremented on reset, so that a Promise from before the reset doesn't modify the count
+
+  function onlyNFn(...args: Parameters<F>): ReturnType<F> | undefined {
+    if (callsDone >= n) return memoize ? lastResult : undefined
+    callsDone += 1
+
+    let result: ReturnType<F>;
+    try {
+      result = fn(...args)
+    } catch (error) {
+      if (retryOnReject) callsDone -= 1
+      throw error
+    }
+    lastResult = result
+
+    if (retryOnReject && isThenable(result)) {
+      const callGeneration = generation
+      //the caller still gets the rejected Promise; we only listen to the rejection to allow a new call
+      result.then(undefined, () => {
+        if (callGeneration !== generation) return
+        callsDone -= 1
+        if (lastResult === result) lastResult = undefined
+      })
+    }
+    return result
+  }
+
+  return Object.assign(onlyNFn, {
+    reset: () => {
+      callsDone = 0
+      lastResult = undefined
+      generation += 1
+    }
+  })
 }
 
-//we initialize reduce with `null` in the case of empty array: no error and returns null
-export const min = function (arr: Array<any>, pluck: Function = (x) => x) {
-  return arr.reduce((min, x) => min && pluck(min) < pluck(x) ? min : x, null)
+/**
+ * @author Antony Lao
+ * @description return a new function which does nothing (returns `undefined`) for the first `n - 1` calls,
+ *   then behaves as the original from the `n`-th call
+ * @ex ```const saveAll = after(3, save) //calls save only when called for the third time or more```
+ * @returns new function, with a `reset()` method to start counting the calls again
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function after<F extends (...args: Array<any>) => any>(n: number, fn: F): ResettableFn<F> {
+  let calls = 0
+
+  function afterFn(...args: Parameters<F>): ReturnType<F> | undefined {
+    calls += 1
+    if (calls < n) return
+    return fn(...args)
+  }
+
+  return Object.assign(afterFn, { reset: () => { calls = 0 } })
 }
 
-export const max = function (arr: Array<any>, pluck: Function = (x) => x) {
-  return arr.reduce((max, x) => max && pluck(max) > pluck(x) ? max : x, null)
+/**
+ * @author Antony Lao
+ * @description return a new function behaving as the original while it is called less than `n` times.
+ *   The subsequent calls return the value of the last call
+ * @note `before(n, fn)` is the same as `onlyN(n - 1, fn, { memoize: true })`
+ * @returns new function, with a `reset()` method to start counting the calls again
+ * @uses onlyN
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function before<F extends (...args: Array<any>) => any>(n: number, fn: F): ResettableFn<F> {
+  return onlyN(Math.max(n - 1, 0), fn, { memoize: true })
 }
 
-//CONVERTING MAP/SET TO/FROM OBJ/ARRR
-export function arrToSet<T>(arr: Array<T>) {
-  return new Set(arr)
+type debounceOptions = {
+  leading?: boolean,
+  trailing?: boolean,
+  maxWait?: number
 }
 
-export function setToArr<T>(setStruct: Set<T>) {
-  return Array.from(setStruct)
+type throttleOptions = {
+  leading?: boolean,
+  trailing?: boolean
 }
 
-export function mapToObj<T, K>(mapStruct: Map<T, K>): { string: K } {
-  return Object.fromEntries(mapStruct)
+type rateLimitOptions = {
+  limit: number,
+  interval: number,
+  burst?: number
 }
 
+type DebouncedFn<F extends (...args: Array<any>) => any> =
+  ((...args: Parameters<F>) => ReturnType<F> | undefined) & {
+    cancel: () => void,
+    flush: () => ReturnType<F> | undefined,
+    pending: () => boolean
+  }
+
+type RateLimitedFn<F extends (...args: Array<any>) => any> =
+  ((...args: Parameters<F>) => Promise<Awaited<ReturnType<F>>>) & {
+    cancel: () => void,
+    flush: () => void,
+    pending: () => number
+  }
+
 /**
- * 
- * @param obj : NOT TYPECHECKED!
- * @returns 
+ * @author Antony Lao
+ * @description return a new function which delays calling `fn` until `wait` ms have passed 
+ *   since its last call. `fn` is called with the arguments of the last call
+ * @ex ```const onSearchInput = debounce((text: string) => search(text), 300)```
+ * @note options: `leading` calls `fn` at the start of a burst of calls, `trailing` (default) at the end of it,
+ *   `maxWait` is the maximum time `fn` can be delayed during a burst of calls
+ * @returns new function returning the value of the last call of `fn` (`undefined` before the first one),
+ *   with `cancel()` to drop the delayed call, `flush()` to do it right away and `pending()`
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
  */
-export function objToMap(obj: Object) {
-  return new Map(Object.entries(obj));
+export function debounce<F extends (...args: Array<any>) => any>(fn: F, wait: number,
+  { leading = false, trailing = true, maxWait }: debounceOptions = {}): DebouncedFn<F> {
+  let timerId;
+  let lastArgs: Parameters<F> | undefined;
+  let lastResult: ReturnType<F> | undefined;
+  let lastCallTime: number;
+  let burstStart: number;
+
+  function invoke() {
+    const args = lastArgs
+    lastArgs = undefined
+    lastResult = fn(...args)
+  }
+
+  function startTimer(now: number) {
+    const quietRemaining = wait - (now - lastCallTime)
+    const maxWaitRemaining = maxWait === undefined ? Infinity : maxWait - (now - burstStart)
+    timerId = setTimeout(timerExpired, Math.max(Math.min(quietRemaining, maxWaitRemaining), 0))
+  }
+
+  function timerExpired() {
+    const now = Date.now()
+    timerId = undefined
+    if (now - lastCallTime >= wait) {
+      //end of the burst of calls
+      if (trailing && lastArgs) invoke()
+      lastArgs = undefined
+      return
+    }
+    //`maxWait` reached while the calls continue: we call `fn` and keep the burst going
+    if (lastArgs) invoke()
+    burstStart = now
+    startTimer(now)
+  }
+
+  function debounced(...args: Parameters<F>) {
+    const now = Date.now()
+    lastArgs = args
+    lastCallTime = now
+    if (timerId === undefined) {
+      burstStart = now
+      if (leading) invoke()
+    } else {
+      clearTimeout(timerId)
+    }
+    startTimer(now)
+    return lastResult
+  }
+
+  return Object.assign(debounced, {
+    cancel: () => {
+      clearTimeout(timerId)
+      timerId = undefined
+      lastArgs = undefined
+    },
+    flush: () => {
+      if (timerId !== undefined) {
+        clearTimeout(timerId)
+        timerId = undefined
+        if (lastArgs) invoke()
+      }
+      return lastResult
+    },
+    pending: () => timerId !== undefined
+  })
 }
 
-// interface Test {
-//   "a": number
-// }
-// let obj: Test = { a: 45 }
-// let mySet = new Set([1, 2, 3])
-// let vanillaReturned = new Map(Object.entries(obj))
-// let returned = mapToObj(new Map<number | string, number | string>([[1, 3], ["b", 2]]))
+/**
+ * @author Antony Lao
+ * @description return a new function which calls `fn` at most once every `wait` ms.
+ *   The calls in between are dropped, except the last one which is delayed to the end of the `wait` period
+ * @ex ```window.addEventListener("scroll", throttle(updatePosition, 100))```
+ * @note options: `leading` (default) calls `fn` right away on the first call, `trailing` (default) 
+ *   calls it at the end of the `wait` period with the arguments of the last call
+ * @returns new function returning the value of the last call of `fn` (`undefined` before the first one),
+ *   with `cancel()` to drop the delayed call, `flush()` to do it right away and `pending()`
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function throttle<F extends (...args: Array<any>) => any>(fn: F, wait: number,
+  { leading = true, trailing = true }: throttleOptions = {}): DebouncedFn<F> {
+  let timerId;
+  let lastArgs: Parameters<F> | undefined;
+  let lastResult: ReturnType<F> | undefined;
+  let lastInvokeTime: number | undefined;
+
+  function invoke() {
+    const args = lastArgs
+    lastArgs = undefined
+    lastInvokeTime = Date.now()
+    lastResult = fn(...args)
+  }
 
+  function trailingEdge() {
+    timerId = undefined
+    if (lastArgs) invoke()
+  }
+
+  function throttled(...args: Parameters<F>) {
+    const elapsed = lastInvokeTime === undefined ? Infinity : Date.now() - lastInvokeTime
+    lastArgs = args
+    if (timerId === undefined) {
+      if (elapsed >= wait && leading) {
+        invoke()
+      } else if (trailing) {
+        timerId = setTimeout(trailingEdge, elapsed >= wait ? wait : wait - elapsed)
+      }
+    }
+    return lastResult
+  }
+
+  return Object.assign(throttled, {
+    cancel: () => {
+      clearTimeout(timerId)
+      timerId = undefined
+      lastArgs = undefined
+      lastInvokeTime = undefined
+    },
+    flush: () => {
+      if (timerId !== undefined) {
+        clearTimeout(timerId)
+        trailingEdge()
+      }
+      return lastResult
+    },
+    pending: () => timerId !== undefined
+  })
+}
 
 /**
  * @author Antony Lao
- * @description returns a new Map. The return value of `fn` becomes a key in the Map, and 
- *   the value is the count of the elements of the struct for which applying the function returns the same thing
- * @note available for array, map, set, object (literal or custom), but NO TYPECHECKING on struct 
- * @ex ``` countByWithMap(myMap, (v,k) => {return v % 2 === 0})```
- * @last update: 22/07/2024; verified: 22/07/2024; tested: YES
+ * @description return a new function calling the (async) function `fn` at most `limit` times per `interval` ms,
+ *   using a token bucket: the calls over the limit are queued and done as soon as a token is available
+ * @ex ```const fetchLimited = rateLimit(fetchUser, { limit: 10, interval: 1000 }) //10 calls per second
+ *        const users = await Promise.all(ids.map((id) => fetchLimited(id)))```
+ * @note `burst` is the maximum number of tokens that can be saved up while the function is not called (default: `limit`)
+ * @note throws a RangeError if `limit` or `interval` is not positive, or if `burst` is less than 1 (no call could ever be done)
+ * @returns new function returning a Promise of the result of `fn`, with `cancel()` to reject the queued calls,
+ *   `flush()` to do the queued calls right away (ignoring the limit) and `pending()` returning the number of queued calls
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
  */
-export function countByWithMap(struct: any, fn: Function) {
-  let ret: Map<any, number> = new Map()
-  if (isObject(struct)) {
-    struct = Object.entries(struct)
+export function rateLimit<F extends (...args: Array<any>) => any>(fn: F,
+  { limit, interval, burst = limit }: rateLimitOptions): RateLimitedFn<F> {
+  if (!(limit > 0)) throw new RangeError(`rateLimit: limit must be positive, got ${limit}`)
+  if (!(interval > 0)) throw new RangeError(`rateLimit: interval must be positive, got ${interval}`)
+  if (!(burst >= 1)) throw new RangeError(`rateLimit: burst must be at least 1, got ${burst}`)
+  type QueuedCall = { args: Parameters<F>, resolve: (value: any) => void, reject: (error: any) => void }
+  const refillPerMs = limit / interval
+  let tokens = burst
+  let lastRefill = Date.now()
+  let queue: Array<QueuedCall> = []
+  let timerId;
+
+  function refill() {
+    const now = Date.now()
+    tokens = Math.min(burst, tokens + (now - lastRefill) * refillPerMs)
+    lastRefill = now
   }
-  struct.forEach((...args) => {
-    let key = fn(...args); // we take the arguments from the #forEach method on struct, and put them on our fn
-    ret.get(key) !== undefined ? ret.set(key, ret.get(key) + 1) : ret.set(key, 1)
+
+  function run({ args, resolve, reject }: QueuedCall) {
+    //a synchronous throw in `fn` rejects the Promise
+    new Promise((resolveFn) => resolveFn(fn(...args))).then(resolve, reject)
+  }
+
+  function drain() {
+    timerId = undefined
+    refill()
+    while (queue.length > 0 && tokens >= 1) {
+      tokens -= 1
+      run(queue.shift())
+    }
+    if (queue.length > 0) {
+      timerId = setTimeout(drain, Math.ceil((1 - tokens) / refillPerMs))
+    }
+  }
+
+  function rateLimited(...args: Parameters<F>): Promise<Awaited<ReturnType<F>>> {
+    return new Promise((resolve, reject) => {
+      queue.push({ args, resolve, reject })
+      if (timerId === undefined) drain()
+    })
+  }
+
+  return Object.assign(rateLimited, {
+    cancel: () => {
+      clearTimeout(timerId)
+      timerId = undefined
+      const cancelledCalls = queue
+      queue = []
+      cancelledCalls.forEach(({ reject }) => reject(new Error("rateLimit: call cancelled")))
+    },
+    flush: () => {
+      clearTimeout(timerId)
+      timerId = undefined
+      const queuedCalls = queue
+      queue = []
+      queuedCalls.forEach(run)
+    },
+    pending: () => queue.length
   })
-  return ret
+}
+
+type PoolTaskStatus<T> =
+  { status: "fulfilled", value: T, attempts: number } |
+  { status: "rejected", reason: any, attempts: number }
+
+type PoolProgress = {
+  done: number,
+  failed: number,
+  total: number,
+  taskIdx: number
+}
+
+type poolOptions = {
+  concurrency?: number,
+  retries?: number,
+  backoff?: number | ((attempt: number) => number),
+  signal?: AbortSignal,
+  onProgress?: (progress: PoolProgress) => void
+}
+
+type PoolResult<T> = {
+  results: Array<T | undefined>,
+  statuses: Array<PoolTaskStatus<T>>
 }
 
 /**
  * @author Antony Lao
- * @description returns a new literal object. The return value of `fn` becomes a key in the object, and 
- *   the value is the count of the elements of the struct for which applying the function returns the same thing
- * @note available for array, map, set, object (literal or custom), but NO TYPECHECKING on struct 
- * @ex ``` countByWithObj(myMap, (v,k) => {return v % 2 === 0})```
- * @last update: 22/07/2024; verified: 22/07/2024; tested: YES
+ * @description runs async tasks (functions without arguments returning a Promise) with at most 
+ *   `concurrency` tasks in flight, retrying the failed tasks
+ * @ex ```const { results, statuses } = await pool(ids.map((id) => () => fetchUser(id)), { concurrency: 3, retries: 2 })```
+ * @note options:
+ *   - `concurrency`: maximum number of tasks running at the same time (default: all tasks at once)
+ *   - `retries`: number of retries of a failed task (default: 0)
+ *   - `backoff`: delay in ms before the first retry, doubled on each retry (default: 100), 
+ *     or a function returning the delay from the attempt number 
+ *   - `signal`: an AbortSignal. On abort, no new task nor retry is started, and the Promise rejects with `signal.reason`.
+ *     The signal is also passed to each task, to abort the tasks in flight
+ *   - `onProgress`: called each time a task is finished (after its last attempt)
+ * @note the Promise doesn't reject when tasks fail: check `statuses`. It rejects if `onProgress` or `backoff` throws
+ * @note rejects with a RangeError if `concurrency` is not a positive integer (or Infinity), 
+ *   or if `retries` is not a non-negative integer
+ * @returns Promise of the `results` in the order of `tasks` (`undefined` for the failed tasks),
+ *   and the `statuses` of each task (like `Promise.allSettled`, with the number of attempts)
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
  */
-export function countByWithObj(struct: any, fn: Function) {
-  let ret: Record<any, number> = {}
-  if (isObject(struct)) {
-    struct = Object.entries(struct)
+export function pool<T>(tasks: Array<(signal?: AbortSignal) => T | PromiseLike<T>>,
+  { concurrency = Infinity, retries = 0, backoff = 100, signal, onProgress = () => { } }: poolOptions = {}): Promise<PoolResult<T>> {
+  //else no task would ever start (or a failed task would be retried forever), and the Promise would never settle
+  if (!(Number.isInteger(concurrency) && concurrency > 0) && concurrency !== Infinity) {
+    return Promise.reject(new RangeError(`pool: concurrency must be a positive integer, got ${concurrency}`))
   }
-  struct.forEach((...args) => {
-    let key = fn(...args)
-    ret[key] !== undefined ? ret[key] += 1 : ret[key] = 1
+  if (!(Number.isInteger(retries) && retries >= 0)) {
+    return Promise.reject(new RangeError(`pool: retries must be a non-negative integer, got ${retries}`))
+  }
+  return new Promise((resolve, reject) => {
+    const results: Array<T | undefined> = tasks.map(() => undefined)
+    const statuses: Array<PoolTaskStatus<T>> = new Array(tasks.length)
+    const retryTimers = new Set<any>()
+    let nextIdx = 0
+    let running = 0
+    let done = 0
+    let failed = 0
+    let aborted = false
+
+    function retryDelay(attempt: number) {
+      return typeof backoff === "function" ? backoff(attempt) : backoff * 2 ** (attempt - 1)
+    }
+
+    //stops the pool: no new task nor retry is started
+    function stop(reason: any) {
+      aborted = true
+      retryTimers.forEach((timerId) => clearTimeout(timerId))
+      signal?.removeEventListener("abort", onAbort)
+      reject(reason)
+    }
+
+    function onAbort() {
+      stop(signal.reason ?? new Error("pool aborted"))
+    }
+
+    function runTask(idx: number, attempt: number) {
+      new Promise<T>((resolveTask) => resolveTask(tasks[idx](signal))).then(
+        (value) => finishTask(idx, { status: "fulfilled", value, attempts: attempt }),
+        (reason) => {
+          if (aborted) return
+          if (attempt > retries) return finishTask(idx, { status: "rejected", reason, attempts: attempt })
+          let delay: number
+          try {
+            delay = retryDelay(attempt)
+          } catch (error) {
+            return stop(error)
+          }
+          const timerId = setTimeout(() => {
+            retryTimers.delete(timerId)
+            runTask(idx, attempt + 1)
+          }, delay)
+          retryTimers.add(timerId)
+        })
+    }
+
+    function finishTask(idx: number, status: PoolTaskStatus<T>) {
+      if (aborted) return
+      statuses[idx] = status
+      if (status.status === "fulfilled") results[idx] = status.value
+      else failed += 1
+      running -= 1
+      done += 1
+      try {
+        onProgress({ done, failed, total: tasks.length, taskIdx: idx })
+      } catch (error) {
+        return stop(error)
+      }
+
+      if (done === tasks.length) {
+        signal?.removeEventListener("abort", onAbort)
+        resolve({ results, statuses })
+      } else {
+        startTasks()
+      }
+    }
+
+    function startTasks() {
+      while (running < concurrency && nextIdx < tasks.length) {
+        running += 1
+        runTask(nextIdx, 1)
+        nextIdx += 1
+      }
+    }
+
+    if (signal?.aborted) return onAbort()
+    signal?.addEventListener("abort", onAbort)
+    if (tasks.length === 0) return resolve({ results, statuses })
+    startTasks()
   })
-  return ret
 }
 
+type memoizeOptions<F extends (...args: Array<any>) => any> = {
+  key?: "structural" | ((...args: Parameters<F>) => any),
+  maxSize?: number,
+  ttl?: number
+}
+
+type MemoCache<F extends (...args: Array<any>) => any> = {
+  clear: () => void,
+  delete: (...args: Parameters<F>) => boolean,
+  has: (...args: Parameters<F>) => boolean,
+  readonly size: number
+}
+
+type MemoizedFn<F extends (...args: Array<any>) => any> = ((...args: Parameters<F>) => ReturnType<F>) & { cache: MemoCache<F> }
+
 /**
  * @author Antony Lao
- * @description returns a new Map. The return value of `fn` becomes a key in the Map, and 
- *   the value is the grouping of the struct values for which applying the function returns the same thing.
- *   The grouping are of the same type as the struct
- * @warning: fn and fnOnEltsGrouped can mutate stuff, in particular the struct passed!
- * @note available for array, map, set, object (literal or custom), but NO TYPECHECKING on struct 
- * @note on custom objects, the groupings values are literal objects
- * @ex ``` groupBy(myMap, (v,k) => {return v % 2 === 0})```
- * @last update: 25/07/2024; verified: 25/07/2024; tested: YES
- * 
+ * @description return a new function behaving as the original, but caching the results: 
+ *   calling it again with the same key returns the cached result without calling `fn`
+ * @ex ```const getUser = memoize(fetchUser, { maxSize: 100, ttl: 60_000 })
+ *        const getTotal = memoize((cart: Cart) => computeTotal(cart), { key: "structural" })```
+ * @note options:
+ *   - `key`: by default the first argument (compared by reference for objects). 
+ *     `"structural"` uses all the arguments, objects/arrays/Maps/Sets being compared by content (see `structuralKey`).
+ *     Or a function returning the key from the arguments
+ *   - `maxSize`: maximum number of cached results, the least recently used is removed first
+ *   - `ttl`: time in ms after which a cached result expires
+ * @note for async functions, the Promise is cached: concurrent calls with the same key share it.
+ *   A rejected Promise is removed from the cache, so the next call tries again
+ * @returns new function, with a `cache` key to `clear()` the cache or `delete()`/`has()` the result for some arguments
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
  */
-export function groupByWithMap(struct: any, fn: Function, fnOnEltsGrouped: Function = (x) => x) {
-  let ret = new Map()
+export function memoize<F extends (...args: Array<any>) => any>(fn: F,
+  { key = (...args) => args[0], maxSize = Infinity, ttl = Infinity }: memoizeOptions<F> = {}): MemoizedFn<F> {
+  //the Map keeps the insertion order: we re-insert an entry when it is used, so the first entry is the least recently used
+  const entries = new Map<any, { value: ReturnType<F>, expiresAt: number }>()
+  const keyFn = key === "structural" ? (...args) => structuralKey(args) : key
 
-  let newStruct;
-  if (isObject(struct)) {
-    newStruct = Object.entries(struct) //convert it to a Map
-  } else {
-    newStruct = struct
+  function getEntry(cacheKey: any) {
+    const entry = entries.get(cacheKey)
+    if (entry === undefined) return
+    if (entry.expiresAt <= Date.now()) {
+      entries.delete(cacheKey)
+      return
+    }
+    return entry
   }
-  newStruct.forEach((...args) => {
-    let retKey = fn(...args);
-    let val;
-    //NB: in each case below, we mutate the value associated to the key of ret if the key exists
-    //we check against the type of the original struct, not newStruct
-    if (isObject(struct)) {
-      val = args[0]
-      const finalVal = fnOnEltsGrouped(val)
-      const [structKey, structVal] = [finalVal[0], finalVal[1]]
-      //original: const [structKey, structVal] = [val[0], val[1]]
-      ret.get(retKey) !== undefined ? ret.get(retKey)[structKey] = structVal : ret.set(retKey, { [structKey]: structVal })
-    } else if (struct instanceof Map) {
-      //by default, the map arguments with forEach are (val, key)
-      val = args.slice(0, 2).reverse() //we want the args in the "intuitive" order (key, val) 
-      const finalVal = fnOnEltsGrouped(val) //the function applies to a tuple [k, v], like for literal objects
-      const [structKey, structVal] = [finalVal[0], finalVal[1]]
-      //original const [structKey, structVal] = [val[0], val[1]]
-      ret.get(retKey) !== undefined ? ret.get(retKey).set(structKey, structVal) : ret.set(retKey, new Map([[structKey, structVal]]))
 
-    } else if (struct instanceof Set) {
-      val = args[0]
-      const finalVal = fnOnEltsGrouped(val)
-      ret.get(retKey) !== undefined ? ret.get(retKey).add(finalVal) : ret.set(retKey, new Set([finalVal]))
-    } else if (struct instanceof Array) {
-      val = args[0]
-      const finalVal = fnOnEltsGrouped(val)
-      ret.get(retKey) !== undefined ? ret.get(retKey).push(finalVal) : ret.set(retKey, [finalVal])
-    }
-  })
-  return ret
+  function memoized(...args: Parameters<F>): ReturnType<F> {
+    const cacheKey = keyFn(...args)
+    const cachedEntry = getEntry(cacheKey)
+    if (cachedEntry !== undefined) {
+      entries.delete(cacheKey)
+      entries.set(cacheKey, cachedEntry)
+      return cachedEntry.value
+    }
+
+    const value = fn(...args)
+    const entry = { value, expiresAt: Date.now() + ttl }
+    entries.set(cacheKey, entry)
+    if (entries.size > maxSize) entries.delete(entries.keys().next().value)
+
+    if (isThenable(value)) {
+      value.then(undefined, () => {
+        if (entries.get(cacheKey) === entry) entries.delete(cacheKey)
+      })
+    }
+    return value
+  }
+
+  return Object.assign(memoized, {
+    cache: {
+      clear: () => entries.clear(),
+      delete: (...args: Parameters<F>) => entries.delete(keyFn(...args)),
+      has: (...args: Parameters<F>) => getEntry(keyFn(...args)) !== undefined,
+      get size() { return entries.size }
+    }
+  })
+}
+
+function isThenable(value: any): value is PromiseLike<any> {
+  return value !== null && (typeof value === "object" || typeof value === "function") && typeof value.then === "function"
+}
+
+/**
+ * @author Antony Lao
+ * @description useful to coordinate parallel async calls by calling a callback function only when
+ *   all async calls are finished
+ * @use: ```const done = cut(3, doWhenEveryAsyncCallAreDone) 
+ *          async function fn1(..args1) {
+ *            ajax_call.then(() => done())
+ *            ajax_call2.then(() => done())
+ *          }```
+ * @param limit : number of times to call the function returned by cut(), before calling callback()
+ * @param callback : function called after n calls to function returned by cut()
+ * @returns undefined
+ * @last update: 19/07/2024; verified: 19/07/2024; tested: YES
+ */
+export function cut(limit: number, callback: Function) {
+  let calls_finished = 0;
+
+  return function () {
+    calls_finished += 1;
+    if (calls_finished === limit) callback()
+  }
+}
+
+type cutBarrierOptions = {
+  timeout?: number,
+  errorMode?: "reject" | "collect",
+  onOverCall?: (value: any, callNumber: number) => void
+}
+
+type CutBarrier<T> = {
+  done: (value?: T | Error) => void,
+  fail: (reason?: any) => void,
+  promise: Promise<Array<T>>,
+  readonly calls: number,
+  readonly overCalls: number
+}
+
+/**
+ * @author Antony Lao
+ * @description Promise version of `cut`: `done(value)` has to be called `limit` times, 
+ *   then `promise` resolves with the values passed to `done`, in the order of the calls
+ * @use: ```const barrier = cutBarrier(2, { timeout: 5000 })
+ *          ajax_call.then(barrier.done, barrier.fail)
+ *          ajax_call2.then(barrier.done, barrier.fail)
+ *          const [res1, res2] = await barrier.promise //in the order the calls finished```
+ * @note calling `fail` with any reason (an `Error` or not), or `done` with an `Error` instance, counts as a failed call: 
+ *   with `errorMode: "reject"` (default) `promise` rejects with the first error right away,
+ *   with `errorMode: "collect"` it waits for the `limit` calls then rejects with an `AggregateError` of all the errors
+ * @note if `timeout` (in ms) is reached before the `limit` calls, `promise` rejects
+ * @note calls after the `limit`-th one are ignored, counted in `overCalls` and passed to `onOverCall`
+ * @param limit : number of calls to `done` before resolving
+ * @returns an object with `done`, `fail`, `promise`, and the `calls`/`overCalls` counters
+ * @uses cut
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function cutBarrier<T = any>(limit: number,
+  { timeout, errorMode = "reject", onOverCall = () => { } }: cutBarrierOptions = {}): CutBarrier<T> {
+  const results: Array<T> = []
+  const errors: Array<any> = []
+  let calls = 0
+  let settled = false
+  let resolvePromise: (results: Array<T>) => void
+  let rejectPromise: (error: any) => void
+  let timeoutId;
+
+  const promise = new Promise<Array<T>>((resolve, reject) => {
+    resolvePromise = resolve
+    rejectPromise = reject
+  })
+
+  function settle(failed = false, error?: any) {
+    if (settled) return
+    settled = true
+    clearTimeout(timeoutId)
+    failed ? rejectPromise(error) : resolvePromise(results)
+  }
+
+  const onLimitReached = cut(limit, () => {
+    if (errors.length === 0) return settle()
+    if (errorMode === "collect") {
+      settle(true, new AggregateError(errors, `${errors.length} of ${limit} calls failed`))
+    }
+  })
+
+  if (limit <= 0) {
+    settle()
+  } else if (timeout !== undefined) {
+    timeoutId = setTimeout(() => {
+      settle(true, new Error(`cutBarrier timed out after ${timeout}ms (${calls} of ${limit} calls done)`))
+    }, timeout)
+  }
+
+  function call(value: any, failed: boolean) {
+    calls += 1
+    if (calls > limit) {
+      onOverCall(value, calls)
+      return
+    }
+    if (failed) {
+      errors.push(value)
+      if (errorMode === "reject") settle(true, value)
+    } else {
+      results.push(value)
+    }
+    onLimitReached()
+  }
+
+  return {
+    done: (value?: T | Error) => call(value, value instanceof Error),
+    //a rejection reason can be anything, not only an Error
+    fail: (reason?: any) => call(reason, true),
+    promise,
+    get calls() { return Math.min(calls, limit) },
+    get overCalls() { return Math.max(calls - limit, 0) }
+  }
+}
+
+//------------------------------
+// GENERAL DATA STRUCTURES HELPERS
+//--------------------------------
+// from JS docs
+// Sequence generator function (commonly referred to as "range", e.g. Clojure, PHP, etc.)
+// `stop` is included if it is reached. See `lazyRange` for negative/float steps
+export const range = (start: number, stop: number, step: number = 1): number[] =>
+  Array.from(lazyRange(start, stop, step));
+
+/**
+ * @author Antony Lao
+ * @description lazy version of `range`: generates the numbers from `start` to `stop` (included if reached) by `step`, 
+ *   without allocating an array
+ * @ex ```lazyRange(5, 1, -2)   // 5, 3, 1
+ *        lazyRange(0, 1, 0.25) // 0, 0.25, 0.5, 0.75, 1
+ *        lazyRange(0)          // 0, 1, 2, ... (infinite)
+ *        lazyRange(0, undefined, -1) // 0, -1, -2, ... (infinite)```
+ * @note without `stop`, the range is infinite in the direction of `step`
+ * @note with a float `step`, the number of values is computed with a small tolerance, 
+ *   so that `lazyRange(0, 0.3, 0.1)` gives 4 values even though 0.3 / 0.1 < 3 in floating point
+ * @note throws a RangeError right away (not on the first value) if `step` is 0 or NaN
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function lazyRange(start: number, stop?: number, step: number = 1): Generator<number> {
+  if (!(step > 0 || step < 0)) throw new RangeError(`lazyRange: step cannot be ${step}`)
+  const end = stop ?? (step < 0 ? -Infinity : Infinity)
+  const length = Math.floor((end - start) / step + 1e-10) + 1
+  return (function* () {
+    for (let i = 0; i < length; i++) {
+      yield start + i * step
+    }
+  })()
+}
+
+//throws a RangeError for the sizes of `chunk` and `window`, which would never yield otherwise
+function assertPositiveInteger(num: number, name: string) {
+  if (!(Number.isInteger(num) && num > 0)) throw new RangeError(`${name} must be a positive integer, got ${num}`)
+}
+
+type LazySource<T> = Iterable<T> | Record<string, T>
+
+/**
+ * @author Antony Lao
+ * @description wraps a struct to chain lazy operations on it: the values are computed one by one 
+ *   when iterating (`for...of`, `toArray()`, ...), without intermediate arrays
+ * @ex ```lazy(lazyRange(1)).filter((x) => x % 2 === 0).map((x) => x * x).take(3).toArray() // [4, 16, 36]```
+ * @note available for arrays, Sets, Maps (iterating on [key, value]), objects (literal or custom, iterating on [key, value] 
+ *   like `groupByWithObj`), strings, generators and any iterable. For async iterables, returns a `LazyAsync`
+ * @note the operations are applied again each time the result is iterated, 
+ *   so a generator source can only be iterated once
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function lazy<T>(struct: Iterable<T>): Lazy<T>
+export function lazy<T>(struct: AsyncIterable<T>): LazyAsync<T>
+export function lazy<T>(struct: Record<string, T>): Lazy<[string, T]>
+export function lazy(struct: any): Lazy<any> | LazyAsync<any> {
+  if (struct != null && typeof struct[Symbol.iterator] !== "function" && typeof struct[Symbol.asyncIterator] === "function") {
+    return new LazyAsync(struct)
+  }
+  return new Lazy(toIterable(struct))
+}
+
+//NB: we check the iterator first, because generators compiled to es5 are literal objects
+function toIterable<T>(struct: LazySource<T>): Iterable<any> {
+  return typeof struct[Symbol.iterator] === "function" ? struct as Iterable<T> : Object.entries(struct)
+}
+
+export class Lazy<T> implements Iterable<T> {
+  constructor(private readonly source: Iterable<T>) { }
+
+  [Symbol.iterator](): Iterator<T> {
+    return this.source[Symbol.iterator]()
+  }
+
+  //helper to build the lazy operations from a generator function on the source
+  private chain<U>(generatorFn: (source: Iterable<T>) => Generator<U>): Lazy<U> {
+    const source = this.source
+    return new Lazy({ [Symbol.iterator]: () => generatorFn(source) })
+  }
+
+  map<U>(fn: (x: T, idx: number) => U): Lazy<U> {
+    return this.chain(function* (source) {
+      let idx = 0
+      for (const x of source) yield fn(x, idx++)
+    })
+  }
+
+  filter<S extends T>(fn: (x: T, idx: number) => x is S): Lazy<S>
+  filter(fn: (x: T, idx: number) => boolean): Lazy<T>
+  filter(fn: (x: T, idx: number) => boolean): Lazy<T> {
+    return this.chain(function* (source) {
+      let idx = 0
+      for (const x of source) if (fn(x, idx++)) yield x
+    })
+  }
+
+  flatMap<U>(fn: (x: T, idx: number) => LazySource<U>): Lazy<U> {
+    return this.chain(function* (source) {
+      let idx = 0
+      for (const x of source) yield* toIterable(fn(x, idx++))
+    })
+  }
+
+  take(n: number): Lazy<T> {
+    return this.chain(function* (source) {
+      if (n <= 0) return
+      let taken = 0
+      for (const x of source) {
+        yield x
+        if (++taken >= n) return
+      }
+    })
+  }
+
+  takeWhile(fn: (x: T, idx: number) => boolean): Lazy<T> {
+    return this.chain(function* (source) {
+      let idx = 0
+      for (const x of source) {
+        if (!fn(x, idx++)) return
+        yield x
+      }
+    })
+  }
+
+  //groups the values in arrays of `size` values (the last one can be smaller)
+  chunk(size: number): Lazy<Array<T>> {
+    assertPositiveInteger(size, "chunk: size")
+    return this.chain(function* (source) {
+      let chunk: Array<T> = []
+      for (const x of source) {
+        chunk.push(x)
+        if (chunk.length === size) {
+          yield chunk
+          chunk = []
+        }
+      }
+      if (chunk.length > 0) yield chunk
+    })
+  }
+
+  //sliding windows of `size` consecutive values, moving by `step` values
+  window(size: number, step: number = 1): Lazy<Array<T>> {
+    assertPositiveInteger(size, "window: size")
+    assertPositiveInteger(step, "window: step")
+    return this.chain(function* (source) {
+      let window: Array<T> = []
+      let toSkip = 0
+      for (const x of source) {
+        if (toSkip > 0) {
+          toSkip--
+          continue
+        }
+        window.push(x)
+        if (window.length === size) {
+          yield window.slice()
+          window = window.slice(step)
+          toSkip = Math.max(step - size, 0)
+        }
+      }
+    })
+  }
+
+  //stops at the end of the shortest struct, closing the iterators of the other structs (e.g. to run the `finally` of generators)
+  zip<U extends Array<any>>(...others: { [K in keyof U]: LazySource<U[K]> }): Lazy<[T, ...U]> {
+    return this.chain(function* (source) {
+      const iterators = [source, ...others].map((struct) => toIterable(struct)[Symbol.iterator]())
+      let results: Array<IteratorResult<any>> = []
+      try {
+        while (true) {
+          results = iterators.map((iterator) => iterator.next())
+          if (results.some((result) => result.done)) return
+          yield results.map((result) => result.value) as [T, ...U]
+        }
+      } finally {
+        iterators.forEach((iterator, idx) => { if (!results[idx]?.done) iterator.return?.() })
+      }
+    })
+  }
+
+  enumerate(): Lazy<[number, T]> {
+    return this.map((x, idx) => [idx, x] as [number, T])
+  }
+
+  forEach(fn: (x: T, idx: number) => void): void {
+    let idx = 0
+    for (const x of this.source) fn(x, idx++)
+  }
+
+  reduce<U>(fn: (acc: U, x: T, idx: number) => U, initialValue: U): U {
+    let acc = initialValue
+    this.forEach((x, idx) => { acc = fn(acc, x, idx) })
+    return acc
+  }
+
+  toArray(): Array<T> {
+    return Array.from(this.source)
+  }
+}
+
+/**
+ * @author Antony Lao
+ * @description same operations as `Lazy`, on an async iterable (e.g. paginated API results). 
+ *   The functions passed can return Promises, and the terminal operations return Promises
+ * @ex ```await lazy(fetchPages()).flatMap((page) => page.items).take(100).toArray()```
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export class LazyAsync<T> implements AsyncIterable<T> {
+  constructor(private readonly source: AsyncIterable<T> | Iterable<T>) { }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return toAsyncIterable(this.source)[Symbol.asyncIterator]()
+  }
+
+  private chain<U>(generatorFn: (source: AsyncIterable<T>) => AsyncGenerator<U>): LazyAsync<U> {
+    const source = toAsyncIterable(this.source)
+    return new LazyAsync({ [Symbol.asyncIterator]: () => generatorFn(source) })
+  }
+
+  map<U>(fn: (x: T, idx: number) => U | PromiseLike<U>): LazyAsync<U> {
+    return this.chain(async function* (source) {
+      let idx = 0
+      for await (const x of source) yield await fn(x, idx++)
+    })
+  }
+
+  filter(fn: (x: T, idx: number) => boolean | PromiseLike<boolean>): LazyAsync<T> {
+    return this.chain(async function* (source) {
+      let idx = 0
+      for await (const x of source) if (await fn(x, idx++)) yield x
+    })
+  }
+
+  flatMap<U>(fn: (x: T, idx: number) => LazySource<U> | AsyncIterable<U> | PromiseLike<LazySource<U>>): LazyAsync<U> {
+    return this.chain(async function* (source) {
+      let idx = 0
+      for await (const x of source) {
+        const struct = await fn(x, idx++)
+        for await (const y of toAsyncIterable(struct)) yield y
+      }
+    })
+  }
+
+  take(n: number): LazyAsync<T> {
+    return this.chain(async function* (source) {
+      if (n <= 0) return
+      let taken = 0
+      for await (const x of source) {
+        yield x
+        if (++taken >= n) return
+      }
+    })
+  }
+
+  takeWhile(fn: (x: T, idx: number) => boolean | PromiseLike<boolean>): LazyAsync<T> {
+    return this.chain(async function* (source) {
+      let idx = 0
+      for await (const x of source) {
+        if (!(await fn(x, idx++))) return
+        yield x
+      }
+    })
+  }
+
+  chunk(size: number): LazyAsync<Array<T>> {
+    assertPositiveInteger(size, "chunk: size")
+    return this.chain(async function* (source) {
+      let chunk: Array<T> = []
+      for await (const x of source) {
+        chunk.push(x)
+        if (chunk.length === size) {
+          yield chunk
+          chunk = []
+        }
+      }
+      if (chunk.length > 0) yield chunk
+    })
+  }
+
+  window(size: number, step: number = 1): LazyAsync<Array<T>> {
+    assertPositiveInteger(size, "window: size")
+    assertPositiveInteger(step, "window: step")
+    return this.chain(async function* (source) {
+      let window: Array<T> = []
+      let toSkip = 0
+      for await (const x of source) {
+        if (toSkip > 0) {
+          toSkip--
+          continue
+        }
+        window.push(x)
+        if (window.length === size) {
+          yield window.slice()
+          window = window.slice(step)
+          toSkip = Math.max(step - size, 0)
+        }
+      }
+    })
+  }
+
+  zip<U extends Array<any>>(...others: { [K in keyof U]: LazySource<U[K]> | AsyncIterable<U[K]> }): LazyAsync<[T, ...U]> {
+    return this.chain(async function* (source) {
+      const iterators = [source, ...others].map((struct) => toAsyncIterable(struct)[Symbol.asyncIterator]())
+      let results: Array<IteratorResult<any>> = []
+      try {
+        while (true) {
+          results = await Promise.all(iterators.map((iterator) => iterator.next()))
+          if (results.some((result) => result.done)) return
+          yield results.map((result) => result.value) as [T, ...U]
+        }
+      } finally {
+        await Promise.all(iterators.map((iterator, idx) => results[idx]?.done ? undefined : iterator.return?.()))
+      }
+    })
+  }
+
+  enumerate(): LazyAsync<[number, T]> {
+    return this.map((x, idx) => [idx, x] as [number, T])
+  }
+
+  async forEach(fn: (x: T, idx: number) => void | PromiseLike<void>): Promise<void> {
+    let idx = 0
+    for await (const x of toAsyncIterable(this.source)) await fn(x, idx++)
+  }
+
+  async reduce<U>(fn: (acc: U, x: T, idx: number) => U | PromiseLike<U>, initialValue: U): Promise<U> {
+    let acc = initialValue
+    await this.forEach(async (x, idx) => { acc = await fn(acc, x, idx) })
+    return acc
+  }
+
+  async toArray(): Promise<Array<T>> {
+    const arr: Array<T> = []
+    await this.forEach((x) => { arr.push(x) })
+    return arr
+  }
+}
+
+function toAsyncIterable<T>(struct: LazySource<T> | AsyncIterable<T>): AsyncIterable<any> {
+  if (typeof struct[Symbol.asyncIterator] === "function") return struct as AsyncIterable<T>
+  const iterable = toIterable(struct as LazySource<T>)
+  return {
+    [Symbol.asyncIterator]: async function* () {
+      yield* iterable
+    }
+  }
+}
+
+/**
+ * @author Antony Lao
+ * @param obj 
+ * @returns 
+ */
+export function toType(obj: any) {
+  return Object.prototype.toString.call(obj).toString()
+}
+
+/**
+ * @description: checks if the obj passed is a literal or a custom object
+ * @source https://javascriptweblog.wordpress.com/2011/08/08/fixing-the-javascript-typeof-operator/
+ * @note doesn't give false positives for: null, undefined, array, new Date()
+ * @param obj 
+ * @returns  
+ * @last update: 22/07/2024; verified: 22/07/2024; tested: NO (simple enough)
+ */
+export function isObject(obj: any) {
+  return toType(obj) === "[object Object]"
+}
+
+//objects created from a user-defined class (not literal objects nor Object.create(null))
+function isCustomObject(obj: any) {
+  const proto = Object.getPrototypeOf(obj)
+  return proto !== null && proto !== Object.prototype
+}
+
+export type TypeName = "undefined" | "null" | "boolean" | "number" | "bigint" | "string" | "symbol" | "function"
+  | "array" | "typedArray" | "map" | "set" | "weakMap" | "weakSet" | "date" | "regexp" | "error" | "promise"
+  | "plainObject" | "classInstance"
+
+/**
+ * @author Antony Lao
+ * @description returns the type of `x`, as a name easier to use than `typeof` or `toType`
+ * @ex ```typeOf(new Map()) // => "map"; typeOf({}) // => "plainObject"; typeOf(new Point()) // => "classInstance"```
+ * @note "plainObject" is a literal object or an object without prototype (Object.create(null)), 
+ *   "classInstance" is any other object not listed in `TypeName`
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function typeOf(x: unknown): TypeName {
+  if (x === null) return "null"
+  if (typeof x !== "object") return typeof x as TypeName
+  if (x instanceof Array) return "array"
+  if (ArrayBuffer.isView(x) && !(x instanceof DataView)) return "typedArray"
+  if (x instanceof Map) return "map"
+  if (x instanceof Set) return "set"
+  if (x instanceof WeakMap) return "weakMap"
+  if (x instanceof WeakSet) return "weakSet"
+  if (x instanceof Date) return "date"
+  if (x instanceof RegExp) return "regexp"
+  if (x instanceof Error) return "error"
+  if (x instanceof Promise) return "promise"
+  return isCustomObject(x) ? "classInstance" : "plainObject"
+}
+
+//fails fast when a helper gets a value of a type it doesn't handle
+function assertTypeOf(x: unknown, expected: Array<TypeName>, fnName: string) {
+  const type = typeOf(x)
+  if (expected.indexOf(type) === -1) throw new TypeError(`${fnName}: expected ${expected.join(" | ")}, got ${type}`)
+}
+
+//same as `minBy`/`maxBy`: returns the element (not the plucked value), but `null` for an empty array (no error)
+export const min = function (arr: Array<any>, pluck: Function = (x) => x) {
+  return arr.length === 0 ? null : minBy(arr, pluck as (x: any) => any)
+}
+
+export const max = function (arr: Array<any>, pluck: Function = (x) => x) {
+  return arr.length === 0 ? null : maxBy(arr, pluck as (x: any) => any)
+}
+
+//CONVERTING MAP/SET TO/FROM OBJ/ARRR
+export function arrToSet<T>(arr: Array<T>) {
+  return new Set(arr)
+}
+
+export function setToArr<T>(setStruct: Set<T>) {
+  return Array.from(setStruct)
+}
+
+//types used for function signatures
+type mapToObjOptions = {
+  onInvalidKey?: "error" | "skip"
+}
+
+/**
+ * @author Antony Lao
+ * @description converts a Map with string, number or symbol keys to an object
+ * @note number keys are converted to strings, like in any object. The keys which are not a string, a number or a symbol 
+ *   (possible from untyped code), and the keys which become equal to another key once converted (e.g. `1` and `"1"`),
+ *   are invalid: with `onInvalidKey: "error"` (default) a TypeError is thrown, with "skip" they are ignored
+ * @note to keep any key (and nested Maps, Sets...), use `serialize` instead
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function mapToObj<K extends PropertyKey, V>(mapStruct: ReadonlyMap<K, V>, { onInvalidKey = "error" }: mapToObjOptions = {}): Record<K, V> {
+  const obj = {} as Record<K, V>
+  mapStruct.forEach((value, key) => {
+    const isStringable = typeof key === "string" || typeof key === "number" || typeof key === "symbol"
+    const isDuplicate = isStringable && Object.prototype.hasOwnProperty.call(obj, key)
+    if (!isStringable || isDuplicate) {
+      if (onInvalidKey === "skip") return
+      throw new TypeError(isStringable
+        ? `mapToObj: the key ${String(key)} is duplicated once converted to a string`
+        : `mapToObj: the key of type ${typeOf(key)} can't be an object key`)
+    }
+    setOwnProperty(obj, key, value)
+  })
+  return obj
+}
+
+/**
+ * @author Antony Lao
+ * @description converts an object to a Map, with its own enumerable keys (strings and symbols)
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function objToMap<T extends object>(obj: T): Map<keyof T, T[keyof T]> {
+  assertTypeOf(obj, ["plainObject", "classInstance"], "objToMap")
+  return new Map(ownEnumerableKeys(obj).map((key) => [key as keyof T, obj[key as keyof T]]))
+}
+
+// interface Test {
+//   "a": number
+// }
+// let obj: Test = { a: 45 }
+// let mySet = new Set([1, 2, 3])
+// let vanillaReturned = new Map(Object.entries(obj))
+
+//types used for function signatures of countBy/groupBy: 
+//the arguments of the callback are the ones of #forEach on the struct (on the entries for objects)
+type ObjEntry<T> = [Extract<keyof T, string>, T[keyof T]]
+//structs accepted by countBy*/groupBy* (objects are used through their entries)
+const groupableTypes: Array<TypeName> = ["array", "set", "map", "plainObject", "classInstance"]
+type ArrayCallback<T, R> = (value: T, idx: number, arr: Array<T>) => R
+type SetCallback<T, R> = (value: T, sameValue: T, set: Set<T>) => R
+type MapCallback<K, V, R> = (value: V, key: K, map: Map<K, V>) => R
+type ObjCallback<T, R> = (entry: ObjEntry<T>, idx: number, entries: Array<ObjEntry<T>>) => R
+//the objects which are not groupable (no entries to group) are rejected at compile time by the object overloads
+type GroupableObject<T> = T extends Date | RegExp | PromiseLike<unknown> | ((...args: Array<any>) => any) ? never : T
+
+type structuralOptions = {
+  structural?: boolean
+}
+
+
+/**
+ * @author Antony Lao
+ * @description returns a new Map. The return value of `fn` becomes a key in the Map, and 
+ *   the value is the count of the elements of the struct for which applying the function returns the same thing
+ * @note available for array, map, set, object (literal or custom). The callback arguments are typed 
+ *   according to the struct, other types of struct are rejected at compile time, and at runtime (TypeError)
+ * @note with `structural: true`, the return values of `fn` which are `deepEqual` are counted together
+ *   (the key in the returned Map is the first one returned)
+ * @ex ``` countByWithMap(myMap, (v,k) => {return v % 2 === 0})```
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function countByWithMap<T, G>(struct: Array<T>, fn: ArrayCallback<T, G>, options?: structuralOptions): Map<G, number>
+export function countByWithMap<T, G>(struct: Set<T>, fn: SetCallback<T, G>, options?: structuralOptions): Map<G, number>
+export function countByWithMap<K, V, G>(struct: Map<K, V>, fn: MapCallback<K, V, G>, options?: structuralOptions): Map<G, number>
+export function countByWithMap<T extends object, G>(struct: GroupableObject<T>, fn: ObjCallback<T, G>, options?: structuralOptions): Map<G, number>
+export function countByWithMap(struct: any, fn: Function, { structural = false }: structuralOptions = {}) {
+  assertTypeOf(struct, groupableTypes, "countByWithMap")
+  let ret: Map<any, number> = new Map()
+  const toKey = structural ? structuralRepresentative() : (key) => key
+  if (isObject(struct)) {
+    struct = Object.entries(struct)
+  }
+  struct.forEach((...args) => {
+    let key = toKey(fn(...args)); // we take the arguments from the #forEach method on struct, and put them on our fn
+    ret.get(key) !== undefined ? ret.set(key, ret.get(key) + 1) : ret.set(key, 1)
+  })
+  return ret
+}
+
+/**
+ * @author Antony Lao
+ * @description returns a new literal object. The return value of `fn` becomes a key in the object, and 
+ *   the value is the count of the elements of the struct for which applying the function returns the same thing
+ * @note available for array, map, set, object (literal or custom). The callback arguments are typed 
+ *   according to the struct, other types of struct are rejected at compile time, and at runtime (TypeError)
+ * @note the return values of `fn` are converted to strings, as keys of the object
+ * @ex ``` countByWithObj(myMap, (v,k) => {return v % 2 === 0})```
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function countByWithObj<T>(struct: Array<T>, fn: ArrayCallback<T, unknown>): Record<string, number>
+export function countByWithObj<T>(struct: Set<T>, fn: SetCallback<T, unknown>): Record<string, number>
+export function countByWithObj<K, V>(struct: Map<K, V>, fn: MapCallback<K, V, unknown>): Record<string, number>
+export function countByWithObj<T extends object>(struct: GroupableObject<T>, fn: ObjCallback<T, unknown>): Record<string, number>
+export function countByWithObj(struct: any, fn: Function) {
+  assertTypeOf(struct, groupableTypes, "countByWithObj")
+  let ret: Record<any, number> = {}
+  if (isObject(struct)) {
+    struct = Object.entries(struct)
+  }
+  struct.forEach((...args) => {
+    let key = fn(...args)
+    ret[key] !== undefined ? ret[key] += 1 : ret[key] = 1
+  })
+  return ret
+}
+
+/**
+ * @author Antony Lao
+ * @description returns a new Map. The return value of `fn` becomes a key in the Map, and 
+ *   the value is the grouping of the struct values for which applying the function returns the same thing.
+ *   The grouping are of the same type as the struct
+ * @warning: fn and fnOnEltsGrouped can mutate stuff, in particular the struct passed!
+ * @note available for array, map, set, object (literal or custom). The callback arguments are typed 
+ *   according to the struct, other types of struct are rejected at compile time, and at runtime (TypeError)
+ * @note on custom objects, the groupings values are literal objects
+ * @note with `structural: true`, the elements for which `fn` returns `deepEqual` values are grouped together 
+ *   (the key in the returned Map is the first one returned). Pass `undefined` as `fnOnEltsGrouped` to use the options only
+ * @ex ``` groupBy(myMap, (v,k) => {return v % 2 === 0})```
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ * 
+ */
+export function groupByWithMap<T, G, U = T>(struct: Array<T>, fn: ArrayCallback<T, G>,
+  fnOnEltsGrouped?: (value: T) => U, options?: structuralOptions): Map<G, Array<U>>
+export function groupByWithMap<T, G, U = T>(struct: Set<T>, fn: SetCallback<T, G>,
+  fnOnEltsGrouped?: (value: T) => U, options?: structuralOptions): Map<G, Set<U>>
+export function groupByWithMap<K, V, G, K2 = K, V2 = V>(struct: Map<K, V>, fn: MapCallback<K, V, G>,
+  fnOnEltsGrouped?: (entry: [K, V]) => [K2, V2], options?: structuralOptions): Map<G, Map<K2, V2>>
+export function groupByWithMap<T extends object, G>(struct: GroupableObject<T>, fn: ObjCallback<T, G>,
+  fnOnEltsGrouped?: undefined, options?: structuralOptions): Map<G, Partial<T>>
+export function groupByWithMap<T extends object, G, K2 extends PropertyKey, V2>(struct: GroupableObject<T>, fn: ObjCallback<T, G>,
+  fnOnEltsGrouped: (entry: ObjEntry<T>) => [K2, V2], options?: structuralOptions): Map<G, Partial<Record<K2, V2>>>
+export function groupByWithMap(struct: any, fn: Function, fnOnEltsGrouped: Function = (x) => x,
+  { structural = false }: structuralOptions = {}) {
+  assertTypeOf(struct, groupableTypes, "groupByWithMap")
+  let ret = new Map()
+  const toKey = structural ? structuralRepresentative() : (key) => key
+
+  let newStruct;
+  if (isObject(struct)) {
+    newStruct = Object.entries(struct) //convert it to a Map
+  } else {
+    newStruct = struct
+  }
+  newStruct.forEach((...args) => {
+    let retKey = toKey(fn(...args));
+    let val;
+    //NB: in each case below, we mutate the value associated to the key of ret if the key exists
+    //we check against the type of the original struct, not newStruct
+    if (isObject(struct)) {
+      val = args[0]
+      const finalVal = fnOnEltsGrouped(val)
+      const [structKey, structVal] = [finalVal[0], finalVal[1]]
+      //original: const [structKey, structVal] = [val[0], val[1]]
+      ret.get(retKey) !== undefined ? ret.get(retKey)[structKey] = structVal : ret.set(retKey, { [structKey]: structVal })
+    } else if (struct instanceof Map) {
+      //by default, the map arguments with forEach are (val, key)
+      val = args.slice(0, 2).reverse() //we want the args in the "intuitive" order (key, val) 
+      const finalVal = fnOnEltsGrouped(val) //the function applies to a tuple [k, v], like for literal objects
+      const [structKey, structVal] = [finalVal[0], finalVal[1]]
+      //original const [structKey, structVal] = [val[0], val[1]]
+      ret.get(retKey) !== undefined ? ret.get(retKey).set(structKey, structVal) : ret.set(retKey, new Map([[structKey, structVal]]))
+
+    } else if (struct instanceof Set) {
+      val = args[0]
+      const finalVal = fnOnEltsGrouped(val)
+      ret.get(retKey) !== undefined ? ret.get(retKey).add(finalVal) : ret.set(retKey, new Set([finalVal]))
+    } else if (struct instanceof Array) {
+      val = args[0]
+      const finalVal = fnOnEltsGrouped(val)
+      ret.get(retKey) !== undefined ? ret.get(retKey).push(finalVal) : ret.set(retKey, [finalVal])
+    }
+  })
+  return ret
+}
+
+/**
+ * @author Antony Lao
+ * @description returns a new literal object. The return value of `fn` becomes a key in the object, and 
+ *   the value is the grouping of the struct values for which applying the function returns the same thing.
+ *   Another optional function can be used to change the elts grouped
+ *   The grouping are of the same type as the struct
+ * @warning: fn and fnOnEltsGrouped can mutate stuff, in particular the struct passed!
+ * @note available for array, map, set, object (literal or custom). The callback arguments are typed 
+ *   according to the struct, other types of struct are rejected at compile time, and at runtime (TypeError)
+ * @note the return values of `fn` are converted to strings, as keys of the object
+ * @note on custom objects, the groupings values are literal objects
+ * @ex ``` groupBy(myMap, (v,k) => {return v % 2 === 0})```
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ * 
+ */
+export function groupByWithObj<T, U = T>(struct: Array<T>, fn: ArrayCallback<T, unknown>,
+  fnOnEltsGrouped?: (value: T) => U): Record<string, Array<U>>
+export function groupByWithObj<T, U = T>(struct: Set<T>, fn: SetCallback<T, unknown>,
+  fnOnEltsGrouped?: (value: T) => U): Record<string, Set<U>>
+export function groupByWithObj<K, V, K2 = K, V2 = V>(struct: Map<K, V>, fn: MapCallback<K, V, unknown>,
+  fnOnEltsGrouped?: (entry: [K, V]) => [K2, V2]): Record<string, Map<K2, V2>>
+export function groupByWithObj<T extends object>(struct: GroupableObject<T>, fn: ObjCallback<T, unknown>): Record<string, Partial<T>>
+export function groupByWithObj<T extends object, K2 extends PropertyKey, V2>(struct: GroupableObject<T>, fn: ObjCallback<T, unknown>,
+  fnOnEltsGrouped: (entry: ObjEntry<T>) => [K2, V2]): Record<string, Partial<Record<K2, V2>>>
+export function groupByWithObj(struct: any, fn: Function, fnOnEltsGrouped: Function = (x) => x) {
+  assertTypeOf(struct, groupableTypes, "groupByWithObj")
+  const ret: Record<any, any> = {}
+
+  let newStruct;
+  if (isObject(struct)) {
+    newStruct = Object.entries(struct) //convert it to a Map
+  } else {
+    newStruct = struct
+  }
+  newStruct.forEach((...args) => {
+    let retKey = fn(...args);
+    let val;
+    //NB: in each case below, we mutate the value associated to the key of ret if the key exists
+    //we check against the type of the original struct, not newStruct
+    if (isObject(struct)) {
+      val = args[0];
+      const finalVal = fnOnEltsGrouped(val)
+      const [structKey, structVal] = [finalVal[0], finalVal[1]]
+      ret[retKey] !== undefined ? ret[retKey][structKey] = structVal : ret[retKey] = { [structKey]: structVal }
+    } else if (struct instanceof Map) {
+      //by default, the map arguments with forEach are (val, key)
+      val = args.slice(0, 2).reverse() //we want the args in the "intuitive" order (key, val) 
+      const finalVal = fnOnEltsGrouped(val) //the function applies to a tuple [k, v], like for literal objects
+      const [structKey, structVal] = [finalVal[0], finalVal[1]]
+      ret[retKey] !== undefined ? ret[retKey].set(structKey, structVal) : ret[retKey] = new Map([[structKey, structVal]])
+    } else if (struct instanceof Set) {
+      val = args[0]
+      const finalVal = fnOnEltsGrouped(val)
+      ret[retKey] !== undefined ? ret[retKey].add(finalVal) : ret[retKey] = new Set([finalVal])
+    } else if (struct instanceof Array) {
+      val = args[0]
+      const finalVal = fnOnEltsGrouped(val)
+      // console.log("🚀 ~ newStruct.forEach ~ val:", val)
+
+      ret[retKey] !== undefined ? ret[retKey].push(finalVal) : ret[retKey] = [finalVal]
+    }
+  })
+  return ret
+}
+
+type groupByNestedOptions = {
+  into?: "map" | "object"
+}
+
+type Aggregator<T, R> = (group: Array<T>) => R
+type AggregateRow<A> = { [K in keyof A]: A[K] extends Aggregator<any, infer R> ? R : never }
+type GroupedInto<O, G, R> = O extends { into: "object" } ? Record<string, R> : Map<G, R>
+//function grouping the struct `S` into keys of type `G`, with the callback arguments of `groupByWithMap`
+//(Maps are checked before Sets, as a Map has all the members of a ReadonlySet)
+type GroupKeyFn<S, G> = S extends ReadonlyArray<infer T> ? ArrayCallback<T, G>
+  : S extends ReadonlyMap<infer K, infer V> ? MapCallback<K, V, G>
+  : S extends ReadonlySet<infer T> ? SetCallback<T, G>
+  : ObjCallback<S, G>
+//grouping of the struct `S`, of the same type as the struct (literal object for custom objects)
+type Grouping<S> = S extends ReadonlyArray<infer T> ? Array<T>
+  : S extends ReadonlyMap<infer K, infer V> ? Map<K, V>
+  : S extends ReadonlySet<infer T> ? Set<T>
+  : Partial<S>
+//one level of Maps (or objects) per key type of `G`, the last level containing the groupings
+type NestedGroups<S, G extends ReadonlyArray<unknown>, O> = G extends readonly [infer First, ...infer Rest]
+  ? GroupedInto<O, First, NestedGroups<Grouping<S>, Rest, O>>
+  : S
+
+/**
+ * @author Antony Lao
+ * @description multi-level version of `groupByWithMap`/`groupByWithObj`: groups the struct with the first function,
+ *   then each grouping with the second function, and so on
+ * @ex ``` groupByNested(sales, [(sale) => sale.country, (sale) => sale.year])
+ *   // => Map { "FR" => Map { 2023 => [...], 2024 => [...] }, "UK" => Map { ... } }```
+ * @note the functions after the first one are applied on the groupings, which are of the same type as the struct 
+ *   (e.g. for arrays, the index passed to the function is the index in the grouping)
+ * @note with `into: "object"`, each level is a literal object (the keys are converted to strings)
+ * @param fns : functions with the same arguments as for `groupByWithMap`
+ * @returns nested Maps (or literal objects), the last level containing the groupings. With no function, returns the struct
+ * @uses groupByWithMap, groupByWithObj
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function groupByNested<S extends object, const G extends ReadonlyArray<unknown>, O extends groupByNestedOptions = {}>(
+  struct: GroupableObject<S>, fns: { [I in keyof G]: GroupKeyFn<S, G[I]> }, options?: O): NestedGroups<S, G, O>
+export function groupByNested(struct: any, fns: ReadonlyArray<(...args: Array<any>) => unknown>,
+  { into = "map" }: groupByNestedOptions = {}) {
+  if (fns.length === 0) return struct
+  const [fn, ...remainingFns] = fns
+
+  if (into === "object") {
+    const grouped = groupByWithObj(struct, fn)
+    Object.keys(grouped).forEach((key) => {
+      grouped[key] = groupByNested(grouped[key], remainingFns, { into })
+    })
+    return grouped
+  }
+  const grouped = groupByWithMap(struct, fn)
+  grouped.forEach((group, key) => {
+    grouped.set(key, groupByNested(group, remainingFns, { into }))
+  })
+  return grouped
+}
+
+/**
+ * @author Antony Lao
+ * @description groups the struct like `groupByWithMap`, then computes several aggregates on each grouping
+ * @ex ``` aggregateBy(sales, (sale) => sale.country, {
+ *     total: sumOf((sale) => sale.price), avg: meanOf((sale) => sale.price), nbOfSales: countOf()
+ *   }) // => Map { "FR" => { total: 320, avg: 106.67, nbOfSales: 3 }, ... }```
+ * @note the aggregators receive an array of the grouped elements for arrays and Sets, 
+ *   and an array of the grouped values for Maps and objects
+ * @note with `into: "object"`, returns a literal object (the keys are converted to strings)
+ * @param aggregators : object of functions taking the array of the grouped elements, 
+ *   like the ones returned by `sumOf`, `meanOf`, `minOf`, `maxOf`, `countOf`, `firstOf`, `lastOf`
+ * @uses groupByWithMap
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function aggregateBy<T, G, A extends Record<string, Aggregator<T, any>>, O extends groupByNestedOptions = {}>(
+  struct: Array<T>, keyFn: ArrayCallback<T, G>, aggregators: A, options?: O): GroupedInto<O, G, AggregateRow<A>>
+export function aggregateBy<T, G, A extends Record<string, Aggregator<T, any>>, O extends groupByNestedOptions = {}>(
+  struct: Set<T>, keyFn: SetCallback<T, G>, aggregators: A, options?: O): GroupedInto<O, G, AggregateRow<A>>
+export function aggregateBy<K, V, G, A extends Record<string, Aggregator<V, any>>, O extends groupByNestedOptions = {}>(
+  struct: Map<K, V>, keyFn: MapCallback<K, V, G>, aggregators: A, options?: O): GroupedInto<O, G, AggregateRow<A>>
+export function aggregateBy<T extends object, G, A extends Record<string, Aggregator<T[keyof T], any>>, O extends groupByNestedOptions = {}>(
+  struct: GroupableObject<T>, keyFn: ObjCallback<T, G>, aggregators: A, options?: O): GroupedInto<O, G, AggregateRow<A>>
+export function aggregateBy(struct: any, keyFn: Function, aggregators: Record<string, Aggregator<any, any>>,
+  { into = "map" }: groupByNestedOptions = {}) {
+  const ret = new Map()
+  groupByWithMap(struct, keyFn as any).forEach((group: any, key) => {
+    const values = group instanceof Array ? group
+      : group instanceof Set ? Array.from(group)
+        : group instanceof Map ? Array.from(group.values())
+          : Object.values(group)
+    const row = {}
+    Object.keys(aggregators).forEach((name) => {
+      row[name] = aggregators[name](values)
+    })
+    ret.set(key, row)
+  })
+  return into === "object" ? Object.fromEntries(ret) : ret
+}
+
+//AGGREGATORS, to use with `aggregateBy`: each returns a function taking a non-empty array of elements
+
+export function sumOf<T>(pluck: (x: T) => number = (x: any) => x, { rounded = false, nbOfFloatDigits = 2 } = {}): Aggregator<T, number> {
+  return (group) => {
+    const total = sum(group.map(pluck))
+    return rounded ? round({ num: total, nbOfFloatDigits }) : total
+  }
+}
+
+//undefined for an empty group, like `arithmeticMean`
+export function meanOf<T>(pluck: (x: T) => number = (x: any) => x, { rounded = true, nbOfFloatDigits = 2 } = {}): Aggregator<T, number | undefined> {
+  return (group) => {
+    const average = arithmeticMean(group, pluck)
+    if (average === undefined) return undefined
+    return rounded ? round({ num: average, nbOfFloatDigits }) : average
+  }
+}
+
+//returns the plucked value, not the element (use `firstOf`/`lastOf` with a sorted struct to get elements)
+export function minOf<T, R = T>(pluck: (x: T) => R = (x: any) => x): Aggregator<T, R> {
+  return (group) => pluck(min(group, pluck))
+}
+
+export function maxOf<T, R = T>(pluck: (x: T) => R = (x: any) => x): Aggregator<T, R> {
+  return (group) => pluck(max(group, pluck))
+}
+
+export function countOf<T>(): Aggregator<T, number> {
+  return (group) => group.length
+}
+
+export function firstOf<T, R = T>(pluck: (x: T) => R = (x: any) => x): Aggregator<T, R> {
+  return (group) => pluck(group[0])
+}
+
+export function lastOf<T, R = T>(pluck: (x: T) => R = (x: any) => x): Aggregator<T, R> {
+  return (group) => pluck(group[group.length - 1])
+}
+
+/**
+ * @description: creates an object from two arrays: an array of keys, and an array of values.
+ *   Takes the array of keys to iterate, so if the `values` array is shorter, undefined are the default 
+ *   for the remaining keys
+ * @last updated: 25/07/2024; verified: 25/07/2024
+ */
+export function createObjFrom(keys, values) {
+  return keys.reduce((obj, key, idx) => {
+    setOwnProperty(obj, key, values[idx])
+    return obj
+  }, {})
+}
+
+// const myObj = { key: 'a', aName: 'b', price: undefined, quantity: undefined }
+// const newObj = extractKeyFromObj(myObj)
+// console.log("🚀 ~ newObj:", newObj)
+
+/**
+ * @author Antony Lao
+ * @description inverse of `createObjFrom`: returns the array of keys and the array of values of `obj`
+ * @ex ```unzipToObj({ a: 1, b: 2 }) // => [["a", "b"], [1, 2]]```
+ * @param obj : literal object or Map
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function unzipToObj<K, V>(obj: ReadonlyMap<K, V>): [Array<K>, Array<V>]
+export function unzipToObj<T extends object>(obj: T): [Array<keyof T & string>, Array<T[keyof T]>]
+export function unzipToObj(obj) {
+  const entries = obj instanceof Map ? Array.from(obj) : Object.entries(obj)
+  return [entries.map(([key]) => key), entries.map(([, value]) => value)]
+}
+
+/**
+ * @description creates an object from an array of objects having each a `key` key
+ * @note the result is frozen when auto-freeze is on (see `configure`)
+ * @param arr : array of objects, each with a `key` key
+ * @uses keyBy
+ */
+export function extractKeysFrom<T extends { key: any }>(arr: Array<T>): Readonly<Record<string, ReadonlyArray<Readonly<Omit<T, "key">>>>> {
+  return freezeOutput(keyBy(arr, "key", { onDuplicate: "group", omitKey: true }))
+}
+
+//types used for function signatures
+//collection of records: the records are the elements of an array or a Set, or the values of a Map
+type Records<T> = ReadonlyArray<T> | ReadonlySet<T> | ReadonlyMap<unknown, T>
+type keyByOptions = {
+  into?: "object" | "map",
+  onDuplicate?: "error" | "first" | "last" | "group",
+  omitKey?: boolean
+}
+type KeyedBy<K, V, O extends keyByOptions> = O extends { into: "map" }
+  ? Map<K, O extends { onDuplicate: "group" } ? Array<V> : V>
+  : Record<string, O extends { onDuplicate: "group" } ? Array<V> : V>
+
+/**
+ * @author Antony Lao
+ * @description indexes the records of `collection` by the value of their property `keyOrFn`, 
+ *   or by `keyOrFn(record, idx)`
+ * @ex 
+ * ```
+ * keyBy([{ id: "a", n: 1 }, { id: "b", n: 2 }], "id", { omitKey: true }) // => { a: { n: 1 }, b: { n: 2 } }
+ * keyBy(orders, (order) => order.customer, { into: "map", onDuplicate: "group" }) // => Map { customer => [orders] }
+ * ```
+ * @param collection : array, Set, or Map (its values are the records). The records are objects or Maps
+ * @param options.into : "object" (default) or "map". With "object", the keys are converted to strings (except symbols)
+ * @param options.onDuplicate : what to do when two records have the same key: 
+ *   "error" (default) throws an Error, "first"/"last" keep the first/last record, 
+ *   "group" puts all the records in arrays (even the records with a unique key)
+ * @param options.omitKey : removes the property `keyOrFn` from the records (when `keyOrFn` is a property)
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function keyBy<T extends object, P extends keyof T, const O extends keyByOptions = {}>(collection: Records<T>, key: P, options?: O):
+  KeyedBy<T[P], O extends { omitKey: true } ? Omit<T, P> : T, O>
+export function keyBy<T, K, const O extends keyByOptions = {}>(collection: Records<T>, fn: (record: T, idx: number) => K, options?: O): KeyedBy<K, T, O>
+export function keyBy(collection, keyOrFn, { into = "object", onDuplicate = "error", omitKey = false }: keyByOptions = {}) {
+  const isFn = typeof keyOrFn === "function"
+  const keyed = new Map()
+  recordsOf(collection, "keyBy").forEach((record, idx) => {
+    const rawKey = isFn ? keyOrFn(record, idx) : propOf(record, keyOrFn)
+    const key = into === "object" && typeof rawKey !== "symbol" ? String(rawKey) : rawKey
+    const value = omitKey && !isFn ? omit(record, [keyOrFn]) : record
+
+    if (!keyed.has(key)) {
+      keyed.set(key, onDuplicate === "group" ? [value] : value)
+    } else if (onDuplicate === "error") {
+      throw new Error(`keyBy: duplicate key ${String(key)}`)
+    } else if (onDuplicate === "last") {
+      keyed.set(key, value)
+    } else if (onDuplicate === "group") {
+      keyed.get(key).push(value)
+    }
+  })
+  return into === "map" ? keyed : Object.fromEntries(keyed)
+}
+
+/**
+ * @author Antony Lao
+ * @description returns the array of the values of the property `key` of each record of `collection`
+ * @ex ```pluck([{ id: 1 }, { id: 2 }], "id") // => [1, 2]```
+ * @param collection : array, Set, or Map (its values are the records). The records are objects or Maps
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function pluck<K, V>(collection: Records<ReadonlyMap<K, V>>, key: K): Array<V | undefined>
+export function pluck<T extends object, P extends keyof T>(collection: Records<T>, key: P): Array<T[P]>
+export function pluck(collection, key) {
+  return recordsOf(collection, "pluck").map((record) => propOf(record, key))
+}
+
+/**
+ * @author Antony Lao
+ * @description returns a copy of `record` with only the `keys`
+ * @ex ```pick({ a: 1, b: 2, c: 3 }, ["a", "c"]) // => { a: 1, c: 3 }```
+ * @note `record` can be a literal object, a Map, or an array or a Set of records (each record is picked).
+ *   The keys absent from a record are not added
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function pick<K, V>(record: ReadonlyMap<K, V>, keys: ReadonlyArray<K>): Map<K, V>
+export function pick<T extends object, P extends keyof T>(records: ReadonlyArray<T>, keys: ReadonlyArray<P>): Array<Pick<T, P>>
+export function pick<T extends object, P extends keyof T>(records: ReadonlySet<T>, keys: ReadonlyArray<P>): Set<Pick<T, P>>
+export function pick<T extends object, P extends keyof T>(record: T, keys: ReadonlyArray<P>): Pick<T, P>
+export function pick(record, keys) {
+  const keptKeys = new Set(keys)
+  return mapRecords(record, (entries) => entries.filter(([key]) => keptKeys.has(key)))
+}
+
+/**
+ * @author Antony Lao
+ * @description returns a copy of `record` without the `keys`
+ * @ex ```omit({ a: 1, b: 2, c: 3 }, ["b"]) // => { a: 1, c: 3 }```
+ * @note `record` can be a literal object, a Map, or an array or a Set of records (each record is copied)
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function omit<K, V>(record: ReadonlyMap<K, V>, keys: ReadonlyArray<K>): Map<K, V>
+export function omit<T extends object, P extends keyof T>(records: ReadonlyArray<T>, keys: ReadonlyArray<P>): Array<Omit<T, P>>
+export function omit<T extends object, P extends keyof T>(records: ReadonlySet<T>, keys: ReadonlyArray<P>): Set<Omit<T, P>>
+export function omit<T extends object, P extends keyof T>(record: T, keys: ReadonlyArray<P>): Omit<T, P>
+export function omit(record, keys) {
+  const omittedKeys = new Set(keys)
+  return mapRecords(record, (entries) => entries.filter(([key]) => !omittedKeys.has(key)))
+}
+
+type Renamed<T, M> = { [K in keyof T as K extends keyof M ? M[K] extends PropertyKey ? M[K] : K : K]: T[K] }
+
+/**
+ * @author Antony Lao
+ * @description returns a copy of `record` with the keys renamed following `mapping` (old key => new key), 
+ *   the order of the keys is kept
+ * @ex ```renameKeys({ first_name: "Ann", age: 30 }, { first_name: "firstName" }) // => { firstName: "Ann", age: 30 }```
+ * @note `record` can be a literal object, a Map (then `mapping` is a Map too), or an array or a Set of records.
+ *   If a new key is already a key of the record, the renamed value overwrites it
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function renameKeys<K, V>(record: ReadonlyMap<K, V>, mapping: ReadonlyMap<K, K>): Map<K, V>
+export function renameKeys<T extends object, const M extends { [K in keyof T]?: PropertyKey }>(records: ReadonlyArray<T>, mapping: M): Array<Renamed<T, M>>
+export function renameKeys<T extends object, const M extends { [K in keyof T]?: PropertyKey }>(records: ReadonlySet<T>, mapping: M): Set<Renamed<T, M>>
+export function renameKeys<T extends object, const M extends { [K in keyof T]?: PropertyKey }>(record: T, mapping: M): Renamed<T, M>
+export function renameKeys(record, mapping) {
+  const newKeyOf = (key) => mapping instanceof Map
+    ? (mapping.has(key) ? mapping.get(key) : key)
+    : (Object.prototype.hasOwnProperty.call(mapping, key) ? mapping[key] : key)
+  return mapRecords(record, (entries) => {
+    const isRenamed = (key) => newKeyOf(key) !== key
+    const newKeys = new Set(entries.filter(([key]) => isRenamed(key)).map(([key]) => newKeyOf(key)))
+    //a key not renamed, and overwritten by a renamed one, is dropped
+    return entries
+      .filter(([key]) => isRenamed(key) || !newKeys.has(key))
+      .map(([key, value]) => [newKeyOf(key), value])
+  })
+}
+
+//records of a collection (array, Set, or values of a Map); throws for the other types
+function recordsOf(collection: any, fnName: string): Array<any> {
+  if (collection instanceof Array) return collection
+  if (collection instanceof Set) return Array.from(collection)
+  if (collection instanceof Map) return Array.from(collection.values())
+  throw new TypeError(`${fnName}: expected an array, a Set or a Map, got ${typeOf(collection)}`)
+}
+
+function propOf(record: any, key: any) {
+  return record instanceof Map ? record.get(key) : record[key]
+}
+
+//applies `fn` to the entries of a record (literal object or Map), or of each record of an array or a Set
+function mapRecords(struct: any, fn: (entries: Array<[any, any]>) => Array<[any, any]>): any {
+  if (struct instanceof Array) return struct.map((record) => mapRecords(record, fn))
+  if (struct instanceof Set) return new Set(Array.from(struct, (record) => mapRecords(record, fn)))
+  if (struct instanceof Map) return new Map(fn(Array.from(struct)))
+  return fn(ownEnumerableKeys(struct).map((key) => [key, struct[key]]))
+    .reduce((obj, [key, value]) => {
+      setOwnProperty(obj, key, value)
+      return obj
+    }, {})
+}
+
+//types used for function signatures
+type TypedArray = Int8Array | Uint8Array | Uint8ClampedArray | Int16Array | Uint16Array | Int32Array | Uint32Array | Float32Array | Float64Array
+//keys of the properties of an object which are not methods (the methods of a class are not own entries)
+type DataKeys<S> = { [K in keyof S]: S[K] extends (...args: Array<any>) => any ? never : K }[keyof S] & string
+//element of the array a struct is converted to by `withArraySwap`
+type SwapElement<S> = S extends string ? string
+  : S extends TypedArray ? number
+  : S extends ReadonlyMap<infer K, infer V> ? [K, V]
+  : S extends ReadonlySet<infer T> ? T
+  : S extends Iterable<infer T> ? T
+  : [DataKeys<S>, S[DataKeys<S>]]
+//struct returned by `withArraySwap`: same type as the input, except generic iterables which become arrays.
+//Objects keep their prototype, so class instances stay instances of their class
+type Swapped<S> = S extends string | TypedArray | ReadonlyArray<any> | ReadonlyMap<any, any> | ReadonlySet<any> ? S
+  : S extends Iterable<infer T> ? Array<T>
+  : S
+
+export type SwapCodec<S = any> = {
+  test: (struct: unknown) => boolean,
+  toArray: (struct: S) => Array<any>,
+  fromArray: (arr: Array<any>, struct: S) => S
+}
+
+const swapCodecs: Array<SwapCodec> = [
+  { test: (struct) => struct instanceof Array, toArray: (arr) => arr.slice(), fromArray: (arr) => arr },
+  { test: (struct) => typeof struct === "string", toArray: (str) => Array.from(str), fromArray: (arr) => arr.join("") },
+  {
+    test: (struct) => ArrayBuffer.isView(struct) && !(struct instanceof DataView),
+    toArray: (typedArr) => Array.from(typedArr), fromArray: (arr, typedArr) => new typedArr.constructor(arr)
+  },
+  { test: (struct) => struct instanceof Map, toArray: (map) => Array.from(map), fromArray: (arr) => new Map(arr) },
+  { test: (struct) => struct instanceof Set, toArray: (set) => Array.from(set), fromArray: (arr) => new Set(arr) },
+  //generic iterables (e.g. generators) can't be rebuilt: they become arrays
+  { test: (struct) => struct != null && typeof struct[Symbol.iterator] === "function", toArray: (it) => Array.from(it), fromArray: (arr) => arr },
+  {
+    test: isObject, toArray: (obj) => Object.entries(obj),
+    fromArray: (arr, obj) => Object.assign(Object.create(Object.getPrototypeOf(obj)), Object.fromEntries(arr))
+  },
+]
+//codecs registered by the user, checked before the built-in ones
+const customSwapCodecs: Array<SwapCodec> = []
+
+/**
+ * @author Antony Lao
+ * @description registers a codec for `withArraySwap` and `withArraySwapAsync`, to convert a collection type to an array and back
+ * @ex 
+ * ```
+ * registerSwapCodec<Queue<any>>({ test: (x) => x instanceof Queue, toArray: (q) => q.items(), fromArray: (arr) => new Queue(arr) })
+ * ```
+ * @note the codecs registered last are checked first, and all before the built-in codecs
+ * @param codec : `test` checks if a struct is handled by the codec, `toArray` converts it to an array, 
+ *   and `fromArray` converts the array back (the original struct is passed as second parameter)
+ * @returns a function unregistering the codec
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function registerSwapCodec<S>(codec: SwapCodec<S>): () => void {
+  customSwapCodecs.unshift(codec)
+  return () => {
+    const idx = customSwapCodecs.indexOf(codec)
+    if (idx !== -1) customSwapCodecs.splice(idx, 1)
+  }
+}
+
+/**
+ * @author Antony Lao
+ * @description convert a struct to array, apply f to the the array, then convert it back to original struct.
+ *   permits to leverage Array methods on the struct 
+ * @note not mutative. Handled structs: arrays, strings (array of characters), typed arrays, Maps (array of entries), 
+ *   Sets, objects (array of own entries, rebuilt with the same prototype), other iterables (returned as an array), 
+ *   and the types registered with `registerSwapCodec`. Throws a TypeError for the other types
+ * @ex 
+ * ```
+ * withArraySwap(myMap, (arr) => arr.filter(([key, value]) => value % 2 === 0)) //returns a Map
+ * withArraySwap("hello", (chars) => chars.reverse()) // => "olleh"
+ * ```
+ * @param struct
+ * @param f : function with the array from struct as a parameter 
+ * @returns new struct, of the same type as `struct`
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function withArraySwap<S>(struct: S, f: (arr: Array<SwapElement<S>>) => Array<SwapElement<S>>): Swapped<S> {
+  const codec = findSwapCodec(struct, "withArraySwap")
+  return codec.fromArray(f(codec.toArray(struct)), struct)
+}
+
+/**
+ * @author Antony Lao
+ * @description same as `withArraySwap`, for a function `f` returning a Promise
+ * @ex ```const checked = await withArraySwapAsync(urlSet, (urls) => filterAsync(urls, isReachable))```
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export async function withArraySwapAsync<S>(struct: S, f: (arr: Array<SwapElement<S>>) => Promise<Array<SwapElement<S>>>): Promise<Swapped<S>> {
+  const codec = findSwapCodec(struct, "withArraySwapAsync")
+  return codec.fromArray(await f(codec.toArray(struct)), struct)
+}
+
+function findSwapCodec(struct: unknown, fnName: string): SwapCodec {
+  const codec = [...customSwapCodecs, ...swapCodecs].find((codec) => codec.test(struct))
+  if (codec === undefined) throw new TypeError(`${fnName}: no codec for ${typeOf(struct)}, use registerSwapCodec`)
+  return codec
+}
+/**
+ * @author Antony Lao
+ * source: https://ebeced.com/blog/ts-best-practices/using-map#utils-javalike-putifabsent
+ * modified implementation: by default, doesn't work with keys of map not being a primitive types.
+ *   With `structural: true`, a key `deepEqual` to `newKey` counts as present
+ * with `ifPresent`, the value of a key already present is replaced by `ifPresent(<value>)`
+ * not mutative
+ * returns a ReadonlyMap: the new Map is frozen when auto-freeze is on (see `configure`)
+ * @uses upsert
+ */
+export function addToMapIfKeyAbsent<T, K>(mapStruct: ReadonlyMap<T, K>, newKey: T, value: K,
+  { structural = false, ifPresent }: addIfKeyAbsentOptions<K> & structuralOptions = {}): ReadonlyMap<T, K> {
+  //with `structural`, the key already in the Map is the one updated
+  const existingKey = structural && !mapStruct.has(newKey)
+    ? Array.from(mapStruct.keys()).find(existingKey => deepEqual(existingKey, newKey))
+    : newKey
+
+  return upsert(mapStruct, existingKey === undefined ? newKey : existingKey, { insert: () => value, update: ifPresent })
+}
+
+//MANUAL TESTS
+// const myMap = new Map([["a", 1]])
+// const myMapModif = addIfKeyAbsent(myMap, "b", 2)
+// console.log("🚀 ~ myMap:", myMap)
+// console.log("🚀 ~ myMapModif:", myMapModif)
+
+
+/**
+ * @author Antony Lao
+ * @description: use with literal object
+ * @note use copy-on-write: not mutative. The new object is frozen when auto-freeze is on (see `configure`)
+ * @note with `ifPresent`, the value of a key already present is replaced by `ifPresent(<value>)`. 
+ *   A key holding `undefined` counts as present
+ * @note throws a TypeError if `obj` is not an object
+ * @uses upsert
+ */
+export function addToObjIfKeyAbsent<T>(obj: T, newKey: string | symbol, value: any, { ifPresent }: addIfKeyAbsentOptions<any> = {}): Readonly<T> {
+  assertTypeOf(obj, ["plainObject", "classInstance"], "addToObjIfKeyAbsent")
+  return upsert(obj as any, newKey, { insert: () => value, update: ifPresent })
+}
+
+//MANUAL TESTS
+// type myObjType = {
+//   "a": number
+// }
+// const myObj: myObjType = { "a": 1 }
+// const myObj2 = addToObjIfKeyAbsent(myObj, "b", "b")
+// console.log("🚀 ~ myObj2:", myObj2)
+
+//types used for function signatures
+type addIfKeyAbsentOptions<V> = {
+  ifPresent?: (value: V) => V
+}
+//key and value types of a Map or of an object
+type EntryKey<S> = S extends ReadonlyMap<infer K, any> ? K : keyof S
+type EntryValue<S, K = EntryKey<S>> = S extends ReadonlyMap<any, infer V> ? V : K extends keyof S ? S[K] : never
+type upsertHandlers<V, K> = {
+  insert?: (key: K) => V,
+  update?: (value: V, key: K) => V
+}
+type upsertAllHandlers<V, K> = {
+  insert?: (newValue: V, key: K) => V,
+  update?: (value: V, newValue: V, key: K) => V
+}
+
+/**
+ * @author Antony Lao
+ * @description copy-on-write insert or update of the value at `key`: 
+ *   if `key` is absent, inserts `insert(key)`, if it is present, replaces its value by `update(<value>, key)`
+ * @ex 
+ * ```
+ * upsert(new Map([["apple", 1]]), "apple", { insert: () => 1, update: (qty) => qty + 1 }) // => Map { apple: 2 }
+ * ```
+ * @note works on Maps, literal objects and `[immerable]` class objects. A key holding `undefined` counts as present 
+ *   (it is checked with `has` for Maps, and with own keys for objects)
+ * @note if the handler for the case is missing, or if it returns the same value, returns `struct`
+ * @param struct : Map or object (not modified)
+ * @param key
+ * @param handlers : `insert` and/or `update`
+ * @returns the new struct
+ * @uses copyOnWrite
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function upsert<S extends object, const K extends EntryKey<S>>(struct: S, key: K, { insert, update }: upsertHandlers<EntryValue<S, K>, K>): S {
+  const isPresent = hasOwnEntry(struct, key)
+  if ((isPresent && update === undefined) || (!isPresent && insert === undefined)) return struct
+  return upsertAll(struct, [[key, undefined as EntryValue<S, K>]], {
+    insert: (_, key) => insert!(key),
+    update: (value, _, key) => update!(value, key)
+  })
+}
+
+/**
+ * @author Antony Lao
+ * @description bulk version of `upsert`, with one copy for all the `entries`: for each `[key, newValue]`, 
+ *   inserts `insert(newValue, key)` if `key` is absent, or replaces the value by `update(<value>, newValue, key)` if present
+ * @ex 
+ * ```
+ * const stock = upsertAll(new Map([["apple", 1]]), [["apple", 2], ["pear", 3]], { update: (qty, added) => qty + added })
+ * // => Map { apple: 3, pear: 3 }
+ * ```
+ * @note by default, `insert` inserts `newValue` and `update` replaces the value by `newValue`. 
+ *   The entries are applied in order, so a key repeated in `entries` is updated with the result of the previous entry
+ * @param entries : any iterable of `[key, newValue]`, e.g. an array of entries or a Map
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function upsertAll<S extends object, const K extends EntryKey<S>>(struct: S, entries: Iterable<[K, EntryValue<S, K>]>,
+  { insert = (newValue) => newValue, update = (_, newValue) => newValue }: upsertAllHandlers<EntryValue<S, K>, K> = {}): S {
+  //the new values are computed first, so that the callbacks receive the values and not immer drafts
+  const changes = new Map<any, any>()
+  const isPresent = (key) => changes.has(key) || hasOwnEntry(struct, key)
+  const valueOf = (key) => changes.has(key) ? changes.get(key) : struct instanceof Map ? struct.get(key) : struct[key]
+
+  for (const [key, newValue] of Array.from(entries)) {
+    if (!isPresent(key)) {
+      changes.set(key, insert(newValue, key))
+    } else {
+      const value = update(valueOf(key), newValue, key)
+      if (value !== valueOf(key)) changes.set(key, value)
+    }
+  }
+
+  if (changes.size === 0) return struct
+  return copyOnWrite(struct, (draft: any) => {
+    changes.forEach((value, key) => setEntry(draft, key, castDraft(value)))
+  }) as S
+}
+
+/**
+ * @author Antony Lao
+ * @description Java-like `computeIfAbsent`: if `key` is absent, inserts `fn(key)`, copy-on-write
+ * @ex ```computeIfAbsent(groups, "admins", () => new Set())```
+ * @note a key holding `undefined` counts as present. If `key` is present, returns `struct`
+ * @uses upsert
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function computeIfAbsent<S extends object, const K extends EntryKey<S>>(struct: S, key: K, fn: (key: K) => EntryValue<S, K>): S {
+  return upsert(struct, key, { insert: fn })
+}
+
+/**
+ * @author Antony Lao
+ * @description Java-like `computeIfPresent`: if `key` is present, replaces its value by `fn(<value>, key)`, copy-on-write
+ * @note unlike in Java, the key is not removed if `fn` returns `undefined`: `undefined` becomes the value
+ * @uses upsert
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function computeIfPresent<S extends object, const K extends EntryKey<S>>(struct: S, key: K,
+  fn: (value: EntryValue<S, K>, key: K) => EntryValue<S, K>): S {
+  return upsert(struct, key, { update: fn })
+}
+
+/**
+ * @author Antony Lao
+ * @description Java-like `merge`: if `key` is absent, inserts `value`, else replaces the value by `combineFn(<value>, value)`, copy-on-write
+ * @ex ```merge(wordCount, "hello", 1, (a, b) => a + b)```
+ * @uses upsert
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function merge<S extends object, const K extends EntryKey<S>>(struct: S, key: K, value: EntryValue<S, K>,
+  combineFn: (oldValue: EntryValue<S, K>, value: EntryValue<S, K>) => EntryValue<S, K>): S {
+  return upsert(struct, key, { insert: () => value, update: (oldValue) => combineFn(oldValue, value) })
+}
+
+function hasOwnEntry(struct: any, key: any): boolean {
+  return struct instanceof Map ? struct.has(key) : Object.prototype.hasOwnProperty.call(struct, key)
+}
+
+function setEntry(struct: any, key: any, value: any) {
+  struct instanceof Map ? struct.set(key, value) : struct[key] = value
+}
+
+// export function getIdxFromValue(arr: Array<any>, value) {
+//   let keysArr = range(0, arr.length - 1)
+//     .filter((idx) => { return arr[idx] === value })
+
+//   return new Set(keysArr)
+// }
+
+/**
+ * @author: Antony Lao
+ * @param obj_like : Map, literal object or array (the keys are the indexes). Throws a TypeError for other types
+ * @param value : value to find the keys from
+ * @param options : with `structural: true`, the values are compared with `deepEqual` instead of `===`
+ * @note scans all the values at each call: for repeated lookups, use `invert` once, or a `BiMap`
+ * @returns Set of keys
+ */
+export function getKeysFromValue(obj_like, value, { structural = false }: structuralOptions = {}) {
+  const isSameValue = (x) => structural ? deepEqual(x, value) : x === value
+  return new Set(entriesOf(obj_like, "getKeysFromValue")
+    .filter(([, x]) => isSameValue(x))
+    .map(([key]) => key))
+}
+
+/**
+ * @author Antony Lao
+ * @description inverted index of a struct: Map from each value to the Set of its keys
+ * @ex ```invert({ a: 1, b: 2, c: 1 }) // => Map { 1 => Set {"a", "c"}, 2 => Set {"b"} }```
+ * @note with `structural: true`, the values deep equal are grouped, under the first of them
+ * @param struct : Map, literal object or array (the keys are the indexes). Throws a TypeError for other types
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function invert<K, V>(struct: ReadonlyMap<K, V>, options?: structuralOptions): Map<V, Set<K>>
+export function invert<V>(struct: ReadonlyArray<V>, options?: structuralOptions): Map<V, Set<number>>
+export function invert<T extends object>(struct: T, options?: structuralOptions): Map<T[keyof T], Set<keyof T & string>>
+export function invert(struct, { structural = false }: structuralOptions = {}) {
+  const toKey = structural ? structuralRepresentative() : (value: any) => value
+  const inverted = new Map<any, Set<any>>()
+  entriesOf(struct, "invert").forEach(([key, value]) => {
+    const invertedKey = toKey(value)
+    if (!inverted.has(invertedKey)) inverted.set(invertedKey, new Set())
+    inverted.get(invertedKey)!.add(key)
+  })
+  return inverted
+}
+
+type indexByResult<K, V> = {
+  index: Map<K, V>,
+  collisions: Map<K, Array<V>>
+}
+
+/**
+ * @author Antony Lao
+ * @description one-to-one index of the values of `struct` by `fn(value, key)`. 
+ *   Unlike a `groupBy`, each key is expected to be unique: when several values have the same key, 
+ *   the first one is kept in `index`, and all of them are reported in `collisions` (nothing is overwritten)
+ * @ex 
+ * ```
+ * const { index, collisions } = indexBy(users, (user) => user.email)
+ * if (collisions.size > 0) throw new Error(`duplicate emails: ${[...collisions.keys()]}`)
+ * ```
+ * @param struct : array, Set, Map or literal object (the values are indexed)
+ * @returns `index` (key => value) and `collisions` (key => all the values having this key)
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function indexBy<V, K, MK>(struct: ReadonlyMap<MK, V>, fn: (value: V, key: MK) => K): indexByResult<K, V>
+export function indexBy<V, K>(struct: ReadonlyArray<V> | ReadonlySet<V>, fn: (value: V, idx: number) => K): indexByResult<K, V>
+export function indexBy<V, K>(struct: Record<string, V>, fn: (value: V, key: string) => K): indexByResult<K, V>
+export function indexBy(struct, fn) {
+  const index = new Map()
+  const collisions = new Map()
+  const entries = struct instanceof Set ? Array.from(struct, (value, idx) => [idx, value]) : entriesOf(struct, "indexBy")
+  entries.forEach(([key, value]) => {
+    const indexKey = fn(value, key)
+    if (!index.has(indexKey)) {
+      index.set(indexKey, value)
+    } else if (collisions.has(indexKey)) {
+      collisions.get(indexKey)!.push(value)
+    } else {
+      collisions.set(indexKey, [index.get(indexKey)!, value])
+    }
+  })
+  return { index, collisions }
+}
+
+//entries of a Map, an array (with indexes as keys) or a literal object; throws for the other types
+function entriesOf(struct: any, fnName: string): Array<[any, any]> {
+  if (struct instanceof Map) return Array.from(struct)
+  if (struct instanceof Array) return struct.map((value, idx) => [idx, value])
+  if (isObject(struct)) return Object.entries(struct)
+  throw new TypeError(`${fnName}: expected a Map, an array or a literal object, got ${typeOf(struct)}`)
+}
+
+//types used for function signatures
+type biMapOptions = {
+  onDuplicateValue?: "error" | "overwrite" | "ignore"
+}
+
+/**
+ * @author Antony Lao
+ * @description bidirectional Map: each key has one value and each value has one key, 
+ *   with O(1) lookups in both directions (`get(key)` and `getKey(value)`)
+ * @ex 
+ * ```
+ * const codes = new BiMap([["fr", "France"], ["de", "Germany"]])
+ * codes.get("fr") // => "France"; codes.getKey("Germany") // => "de"
+ * ```
+ * @note `onDuplicateValue` is the policy when a value is set for a key while another key already has it:
+ *   "error" (default) throws an Error, "overwrite" removes the other key, "ignore" keeps the other key and does nothing
+ * @note mutative, like a Map. The keys and the values are compared like in a Map (`SameValueZero`)
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export class BiMap<K, V> implements Iterable<[K, V]> {
+  private readonly valueByKey = new Map<K, V>()
+  private readonly keyByValue = new Map<V, K>()
+  private readonly onDuplicateValue: NonNullable<biMapOptions["onDuplicateValue"]>
+
+  constructor(entries?: Iterable<readonly [K, V]>, { onDuplicateValue = "error" }: biMapOptions = {}) {
+    this.onDuplicateValue = onDuplicateValue
+    if (entries) for (const [key, value] of entries) this.set(key, value)
+  }
+
+  get size(): number {
+    return this.valueByKey.size
+  }
+
+  get(key: K): V | undefined {
+    return this.valueByKey.get(key)
+  }
+
+  getKey(value: V): K | undefined {
+    return this.keyByValue.get(value)
+  }
+
+  has(key: K): boolean {
+    return this.valueByKey.has(key)
+  }
+
+  hasValue(value: V): boolean {
+    return this.keyByValue.has(value)
+  }
+
+  set(key: K, value: V): this {
+    if (this.keyByValue.has(value)) {
+      const otherKey = this.keyByValue.get(value)!
+      if (otherKey === key) return this
+      if (this.onDuplicateValue === "ignore") return this
+      if (this.onDuplicateValue === "error") {
+        throw new Error(`BiMap: value ${String(value)} already set for the key ${String(otherKey)}`)
+      }
+      this.valueByKey.delete(otherKey)
+    }
+    if (this.valueByKey.has(key)) this.keyByValue.delete(this.valueByKey.get(key)!)
+    this.valueByKey.set(key, value)
+    this.keyByValue.set(value, key)
+    return this
+  }
+
+  delete(key: K): boolean {
+    if (!this.valueByKey.has(key)) return false
+    this.keyByValue.delete(this.valueByKey.get(key)!)
+    return this.valueByKey.delete(key)
+  }
+
+  deleteValue(value: V): boolean {
+    if (!this.keyByValue.has(value)) return false
+    this.valueByKey.delete(this.keyByValue.get(value)!)
+    return this.keyByValue.delete(value)
+  }
+
+  clear(): void {
+    this.valueByKey.clear()
+    this.keyByValue.clear()
+  }
+
+  //returns a new BiMap, from the values to the keys
+  inverse(): BiMap<V, K> {
+    return new BiMap(Array.from(this.valueByKey, ([key, value]) => [value, key] as [V, K]), { onDuplicateValue: this.onDuplicateValue })
+  }
+
+  forEach(fn: (value: V, key: K, map: BiMap<K, V>) => void): void {
+    this.valueByKey.forEach((value, key) => fn(value, key, this))
+  }
+
+  keys(): IterableIterator<K> {
+    return this.valueByKey.keys()
+  }
+
+  values(): IterableIterator<V> {
+    return this.valueByKey.values()
+  }
+
+  entries(): IterableIterator<[K, V]> {
+    return this.valueByKey.entries()
+  }
+
+  [Symbol.iterator](): IterableIterator<[K, V]> {
+    return this.entries()
+  }
+}
+
+//-----------------------------------------
+// STRUCTURAL EQUALITY (COMPARE STRUCTS BY VALUE INSTEAD OF BY REFERENCE)
+//------------------------------------------
+
+/**
+ * @author Antony Lao
+ * @description checks if two values have the same content: primitives are compared like `===` (but NaN equals NaN),
+ *   structs are compared recursively: arrays, objects (literal or custom, which must have the same prototype), 
+ *   Maps (keys compared by value too), Sets (in any order), Dates (by time), RegExps (by source and flags)
+ * @note supports circular references: like in `structuralKey`, a reference back to an ancestor is only equal to
+ *   a reference back to the ancestor at the same depth, so that two `deepEqual` values always have the same `structuralKey`
+ * @ex ```deepEqual({ a: [1, new Set([2])] }, { a: [1, new Set([2])] }) // => true```
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function deepEqual(a: any, b: any): boolean {
+  //ancestors of the values being compared, at the same depth in `a` and in `b`
+  const ancestorsA: Array<any> = []
+  const ancestorsB: Array<any> = []
+  //number of ancestors which differ between `a` and `b`: the key of a struct depends on its ancestors when it is
+  //circular, so a struct is only equal to itself without checking its content when it has the same ancestors
+  let differentAncestors = 0
+
+  function equal(a: any, b: any): boolean {
+    if (a === b && (differentAncestors === 0 || !isStruct(a))) return true
+    if (a !== a && b !== b) return true //NaN !== NaN
+    if (!isStruct(a) || !isStruct(b)) return false
+    if (toType(a) !== toType(b) || Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false
+    const cycleIdxA = ancestorsA.indexOf(a)
+    const cycleIdxB = ancestorsB.indexOf(b)
+    if (cycleIdxA !== -1 || cycleIdxB !== -1) return cycleIdxA === cycleIdxB
+
+    ancestorsA.push(a)
+    ancestorsB.push(b)
+    if (a !== b) differentAncestors++
+    const result = equalStructs(a, b)
+    if (a !== b) differentAncestors--
+    ancestorsA.pop()
+    ancestorsB.pop()
+    return result
+  }
+
+  function equalStructs(a: any, b: any): boolean {
+    if (a instanceof Date) return equal(a.getTime(), b.getTime())
+    if (a instanceof RegExp) return String(a) === String(b)
+    if (a instanceof Array) {
+      return a.length === b.length && Array.from(a).every((x, idx) => equal(x, b[idx]))
+    }
+    //primitives are found with `has`; structs are matched one by one, as several of them can be equal
+    if (a instanceof Set) {
+      if (a.size !== b.size) return false
+      const unmatched = Array.from(b).filter(isStruct)
+      return Array.from(a).every((x) => {
+        if (!isStruct(x)) return b.has(x)
+        const idx = unmatched.findIndex((y) => equal(x, y))
+        if (idx === -1) return false
+        unmatched.splice(idx, 1)
+        return true
+      })
+    }
+    if (a instanceof Map) {
+      if (a.size !== b.size) return false
+      const unmatchedKeys = Array.from(b.keys()).filter(isStruct)
+      return Array.from(a).every(([k, v]) => {
+        if (!isStruct(k)) return b.has(k) && equal(v, b.get(k))
+        const idx = unmatchedKeys.findIndex((key) => equal(k, key) && equal(v, b.get(key)))
+        if (idx === -1) return false
+        unmatchedKeys.splice(idx, 1)
+        return true
+      })
+    }
+    const keysA = Object.keys(a)
+    const keysB = Object.keys(b)
+    return keysA.length === keysB.length &&
+      keysA.every((key) => Object.prototype.hasOwnProperty.call(b, key) && equal(a[key], b[key]))
+  }
+
+  return equal(a, b)
+}
+
+function isStruct(value: any): boolean {
+  return value !== null && typeof value === "object"
+}
+
+/**
+ * @author Antony Lao
+ * @description returns a 32 bits integer hash of the content of `value`: two values which are `deepEqual` have the same hash
+ * @note computed from `structuralKey` (FNV-1a hash of the key)
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function hash(value: any): number {
+  const key = structuralKey(value)
+  let hashNum = 0x811c9dc5
+  for (let i = 0; i < key.length; i++) {
+    hashNum ^= key.charCodeAt(i)
+    hashNum = Math.imul(hashNum, 0x01000193)
+  }
+  return hashNum >>> 0
+}
+
+/**
+ * @author Antony Lao
+ * @description returns a string describing the content of `value`, so that two values have the same key
+ *   if and only if they are `deepEqual`. Structs are handled like in `groupByWithMap`: arrays, Sets, Maps (by entries), 
+ *   objects (literal or custom, by entries). Key order of objects/Maps and value order of Sets don't matter
+ * @note Dates are compared by time, RegExps by source and flags. Functions and symbols are compared by reference. 
+ *   Circular references are supported: a reference back to an ancestor is described by its depth
+ * @note objects whose prototype isn't the one of their type (custom objects, `Object.create(null)`...) include 
+ *   their prototype in the key, by reference (with the name of its class to be readable)
+ * @ex ```structuralKey({ a: 1, b: [1, 2] }) === structuralKey({ b: [1, 2], a: 1 }) // => true```
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function structuralKey(value: any): string {
+  const ancestors: Array<any> = []
+
+  function keyOf(value: any): string {
+    if (typeof value === "string") return JSON.stringify(value)
+    if (typeof value === "bigint") return `${value}n`
+    if (typeof value === "function" || typeof value === "symbol") return `ref#${referenceId(value)}`
+    if (value === null || typeof value !== "object") return String(value)
+
+    const cycleIdx = ancestors.indexOf(value)
+    if (cycleIdx !== -1) return `<cycle ${ancestors.length - cycleIdx}>`
+    ancestors.push(value)
+    let key: string;
+    if (value instanceof Date) {
+      key = `Date(${value.getTime()})`
+    } else if (value instanceof RegExp) {
+      key = `RegExp(${String(value)})`
+    } else if (value instanceof Array) {
+      key = `[${Array.from(value, keyOf).join(",")}]`
+    } else if (value instanceof Set) {
+      key = `Set{${Array.from(value, keyOf).sort().join(",")}}`
+    } else if (value instanceof Map) {
+      key = `Map{${Array.from(value, ([k, v]) => `${keyOf(k)}=>${keyOf(v)}`).sort().join(",")}}`
+    } else {
+      key = `{${Object.entries(value).map(([k, v]) => `${JSON.stringify(k)}:${keyOf(v)}`).sort().join(",")}}`
+    }
+    ancestors.pop()
+    return prototypeKey(value) + key
+  }
+
+  return keyOf(value)
+}
+
+const defaultPrototypes = [Object.prototype, Array.prototype, Map.prototype, Set.prototype, Date.prototype, RegExp.prototype]
+
+//`deepEqual` compares the prototypes: they are part of the key, unless it is the default one of the struct
+function prototypeKey(struct: object): string {
+  const prototype = Object.getPrototypeOf(struct)
+  if (prototype === null) return "null#"
+  if (defaultPrototypes.indexOf(prototype) !== -1) return ""
+  return `${prototype.constructor?.name ?? ""}#${referenceId(prototype)}`
+}
+
+//symbols can be WeakMap keys since ES2023, except the registered ones (`Symbol.for`), which live forever anyway.
+//On older engines, the ids of symbols are kept in a Map: the symbols hashed are never garbage collected
+const referenceIds = new WeakMap<object, number>()
+const symbolIds: { get: (value: symbol) => number | undefined, set: (value: symbol, id: number) => any } =
+  canBeWeakMapKey(Symbol()) ? new WeakMap<any, number>() : new Map<symbol, number>()
+const registeredSymbolIds = new Map<symbol, number>()
+let lastReferenceId = 0
+function referenceId(value: object | symbol) {
+  const ids: { get: (value) => number | undefined, set: (value, id: number) => any } =
+    typeof value !== "symbol" ? referenceIds : Symbol.keyFor(value) === undefined ? symbolIds : registeredSymbolIds
+  if (ids.get(value) === undefined) ids.set(value, ++lastReferenceId)
+  return ids.get(value)
+}
+
+function canBeWeakMapKey(value: any): boolean {
+  try {
+    new WeakMap().set(value, 0)
+    return true
+  } catch (error) {
+    return false
+  }
+}
+
+/**
+ * @author Antony Lao
+ * @description Map whose keys are compared by value (see `structuralKey`) instead of by reference
+ * @ex ```const distances = new StructuralMap([[{ x: 0, y: 0 }, 0]])
+ *        distances.get({ x: 0, y: 0 }) // => 0```
+ * @warning the keys must not be mutated once in the map
+ * @note the keys returned when iterating are the ones passed on the first `set` for each key
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export class StructuralMap<K, V> implements Iterable<[K, V]> {
+  private readonly entriesByKey = new Map<string, [K, V]>()
+
+  constructor(entries?: Iterable<readonly [K, V]>) {
+    if (entries) for (const [key, value] of entries) this.set(key, value)
+  }
+
+  get size(): number {
+    return this.entriesByKey.size
+  }
+
+  get(key: K): V | undefined {
+    return this.entriesByKey.get(structuralKey(key))?.[1]
+  }
+
+  //returns the key equal to `key` which is stored in the map
+  getKey(key: K): K | undefined {
+    return this.entriesByKey.get(structuralKey(key))?.[0]
+  }
+
+  has(key: K): boolean {
+    return this.entriesByKey.has(structuralKey(key))
+  }
+
+  set(key: K, value: V): this {
+    const structKey = structuralKey(key)
+    const existingEntry = this.entriesByKey.get(structKey)
+    this.entriesByKey.set(structKey, [existingEntry ? existingEntry[0] : key, value])
+    return this
+  }
+
+  delete(key: K): boolean {
+    return this.entriesByKey.delete(structuralKey(key))
+  }
+
+  clear(): void {
+    this.entriesByKey.clear()
+  }
+
+  forEach(fn: (value: V, key: K, map: StructuralMap<K, V>) => void): void {
+    this.entriesByKey.forEach(([key, value]) => fn(value, key, this))
+  }
+
+  keys(): IterableIterator<K> {
+    return Array.from(this.entriesByKey.values(), ([key]) => key)[Symbol.iterator]()
+  }
+
+  values(): IterableIterator<V> {
+    return Array.from(this.entriesByKey.values(), ([, value]) => value)[Symbol.iterator]()
+  }
+
+  entries(): IterableIterator<[K, V]> {
+    return Array.from(this.entriesByKey.values(), ([key, value]) => [key, value] as [K, V])[Symbol.iterator]()
+  }
+
+  [Symbol.iterator](): IterableIterator<[K, V]> {
+    return this.entries()
+  }
+}
+
+/**
+ * @author Antony Lao
+ * @description Set whose values are compared by value (see `structuralKey`) instead of by reference
+ * @ex ```const visited = new StructuralSet([[0, 0]]); visited.has([0, 0]) // => true```
+ * @warning the values must not be mutated once in the set
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export class StructuralSet<T> implements Iterable<T> {
+  private readonly map = new StructuralMap<T, T>()
+
+  constructor(values?: Iterable<T>) {
+    if (values) for (const value of values) this.add(value)
+  }
+
+  get size(): number {
+    return this.map.size
+  }
+
+  add(value: T): this {
+    if (!this.map.has(value)) this.map.set(value, value)
+    return this
+  }
+
+  has(value: T): boolean {
+    return this.map.has(value)
+  }
+
+  delete(value: T): boolean {
+    return this.map.delete(value)
+  }
+
+  clear(): void {
+    this.map.clear()
+  }
+
+  forEach(fn: (value: T, sameValue: T, set: StructuralSet<T>) => void): void {
+    this.map.forEach((value) => fn(value, value, this))
+  }
+
+  values(): IterableIterator<T> {
+    return this.map.keys()
+  }
+
+  keys(): IterableIterator<T> {
+    return this.map.keys()
+  }
+
+  [Symbol.iterator](): IterableIterator<T> {
+    return this.map.keys()
+  }
+}
+
+//returns a function giving, for each key, the first key passed which is structurally equal to it
+function structuralRepresentative() {
+  const representatives = new StructuralMap<any, any>()
+  return (key: any) => {
+    if (!representatives.has(key)) representatives.set(key, key)
+    return representatives.get(key)
+  }
+}
+
+//-----------------------------------------
+// DEEP COPY, MERGE AND DIFF
+//------------------------------------------
+
+type deepMergeOptions = {
+  arrays?: "replace" | "concat" | "merge",
+  maps?: "merge" | "replace",
+  sets?: "union" | "replace"
+}
+
+type DeepChange = {
+  op: "add" | "remove" | "replace",
+  path: Array<any>,
+  value?: any,
+  oldValue?: any
+}
+
+/**
+ * @author Antony Lao
+ * @description returns a deep copy of `value`: arrays, objects, Maps (keys and values), Sets, Dates and RegExps are copied recursively
+ * @note custom objects (e.g. classes with `[immerable] = true`) keep their prototype, and their own properties 
+ *   (including symbol keys) are copied. Functions are not copied. Circular references are supported
+ * @ex ```const copy = deepClone(state); copy.users.get(1).name = "new" //doesn't modify `state````
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function deepClone<T>(value: T): T {
+  const clones = new Map<any, any>() //original => copy, for circular references
+
+  function clone(value: any): any {
+    if (value === null || typeof value !== "object") return value
+    if (clones.has(value)) return clones.get(value)
+
+    if (value instanceof Date) return new Date(value.getTime())
+    if (value instanceof RegExp) return new RegExp(value.source, value.flags)
+    if (value instanceof Array) {
+      const copy = []
+      clones.set(value, copy)
+      value.forEach((x) => copy.push(clone(x)))
+      return copy
+    }
+    if (value instanceof Map) {
+      const copy = new Map()
+      clones.set(value, copy)
+      value.forEach((v, k) => copy.set(clone(k), clone(v)))
+      return copy
+    }
+    if (value instanceof Set) {
+      const copy = new Set()
+      clones.set(value, copy)
+      value.forEach((x) => copy.add(clone(x)))
+      return copy
+    }
+    const copy = Object.create(Object.getPrototypeOf(value))
+    clones.set(value, copy)
+    ownEnumerableKeys(value).forEach((key) => {
+      setOwnProperty(copy, key, clone(value[key]))
+    })
+    return copy
+  }
+
+  return clone(value)
+}
+
+function ownEnumerableKeys(obj: object): Array<string | symbol> {
+  const symbols = Object.getOwnPropertySymbols(obj).filter((symbol) => Object.prototype.propertyIsEnumerable.call(obj, symbol))
+  return [...Object.keys(obj), ...symbols]
+}
+
+//creates the property instead of assigning it: `obj["__proto__"] = value` would change the prototype of `obj`
+function setOwnProperty(obj: object, key: PropertyKey, value: any) {
+  Object.defineProperty(obj, key, { value, enumerable: true, writable: true, configurable: true })
+}
+
+//keys of `source` that `deepMerge` ignores, so that a parsed payload can't reach the prototypes
+const unsafeMergeKeys: Array<PropertyKey> = ["__proto__", "constructor", "prototype"]
+
+/**
+ * @author Antony Lao
+ * @description returns a new value, merging `source` into `target` recursively. Not mutative: the result doesn't share
+ *   any reference with `target` or `source`
+ * @ex ```deepMerge({ a: { x: 1 }, list: [1] }, { a: { y: 2 }, list: [2] }, { arrays: "concat" })
+ *   // => { a: { x: 1, y: 2 }, list: [1, 2] }```
+ * @note objects (literal or custom) are merged key by key, the `undefined` values of `source` are ignored,
+ *   and so are its "__proto__", "constructor" and "prototype" keys (safe with untrusted JSON).
+ *   When `target` and `source` are not of the same kind, `source` replaces `target`
+ * @note options (how to merge two structs of the same kind):
+ *   - `arrays`: `"replace"` (default), `"concat"`, or `"merge"` (merge the elements with the same index)
+ *   - `maps`: `"merge"` (default, merge the values of the same key) or `"replace"`
+ *   - `sets`: `"union"` (default) or `"replace"`
+ * @uses deepClone
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function deepMerge<T, S>(target: T, source: S,
+  { arrays = "replace", maps = "merge", sets = "union" }: deepMergeOptions = {}): T & S {
+  //`cloned` is the deep clone of `target`, made once at the top: the merge mutates it instead of cloning each level again
+  function merge(target: any, cloned: any, source: any): any {
+    if (target instanceof Array && source instanceof Array) {
+      if (arrays === "concat") return [...cloned, ...deepClone(source)]
+      if (arrays === "merge") {
+        const length = Math.max(target.length, source.length)
+        return Array.from({ length }, (_, idx) => idx < source.length ? merge(target[idx], cloned[idx], source[idx]) : cloned[idx])
+      }
+      return deepClone(source)
+    }
+    if (target instanceof Map && source instanceof Map) {
+      if (maps === "replace") return deepClone(source)
+      //the keys of `cloned` are clones too: we find them from the keys of `target` (same insertion order)
+      const keysOfCloned = Array.from(cloned.keys())
+      const clonedKeys = new Map(Array.from(target.keys()).map((key, idx) => [key, keysOfCloned[idx]]))
+      source.forEach((v, k) => {
+        if (clonedKeys.has(k)) {
+          const clonedKey = clonedKeys.get(k)
+          cloned.set(clonedKey, merge(target.get(k), cloned.get(clonedKey), v))
+        } else {
+          cloned.set(deepClone(k), deepClone(v))
+        }
+      })
+      return cloned
+    }
+    if (target instanceof Set && source instanceof Set) {
+      if (sets === "replace") return deepClone(source)
+      source.forEach((v) => { if (!target.has(v)) cloned.add(deepClone(v)) })
+      return cloned
+    }
+    if (isMergeableObject(target) && isMergeableObject(source)) {
+      ownEnumerableKeys(source).forEach((key) => {
+        if (source[key] === undefined || unsafeMergeKeys.indexOf(key) !== -1) return
+        setOwnProperty(cloned, key, Object.prototype.hasOwnProperty.call(target, key)
+          ? merge(target[key], cloned[key], source[key])
+          : deepClone(source[key]))
+      })
+      return cloned
+    }
+    return deepClone(source)
+  }
+
+  return merge(target, deepClone(target), source)
+}
+
+//objects (literal or custom) which are not builtin structs
+function isMergeableObject(value: any) {
+  return value !== null && typeof value === "object" &&
+    !(value instanceof Array || value instanceof Map || value instanceof Set || value instanceof Date || value instanceof RegExp)
+}
+
+/**
+ * @author Antony Lao
+ * @description returns the list of changes to go from `a` to `b`. Each change has an `op` ("add", "remove" or "replace"),
+ *   the `path` to the changed value (object keys, array indexes, Map keys, or the value itself for Sets), 
+ *   the new `value` (for "add"/"replace") and the `oldValue` (for "remove"/"replace")
+ * @ex ```deepDiff({ a: 1, b: [1] }, { a: 2, b: [1, 3] })
+ *   // => [{ op: "replace", path: ["a"], value: 2, oldValue: 1 }, { op: "add", path: ["b", 1], value: 3 }]```
+ * @note arrays are compared index by index; the removals of array elements are listed from the last index,
+ *   so that the changes can be applied in order
+ * @note values are compared with `deepEqual`. Circular references are supported
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function deepDiff(a: any, b: any): Array<DeepChange> {
+  const changes: Array<DeepChange> = []
+  const comparing: Array<[any, any]> = []
+
+  function diff(a: any, b: any, path: Array<any>) {
+    if (deepEqual(a, b)) return
+    if (!isSameStructKind(a, b) || comparing.some(([x, y]) => x === a && y === b)) {
+      changes.push({ op: "replace", path, value: b, oldValue: a })
+      return
+    }
+    comparing.push([a, b])
+    if (a instanceof Array) {
+      const commonLength = Math.min(a.length, b.length)
+      for (let idx = 0; idx < commonLength; idx++) diff(a[idx], b[idx], [...path, idx])
+      for (let idx = commonLength; idx < b.length; idx++) changes.push({ op: "add", path: [...path, idx], value: b[idx] })
+      for (let idx = a.length - 1; idx >= commonLength; idx--) changes.push({ op: "remove", path: [...path, idx], oldValue: a[idx] })
+    } else if (a instanceof Set) {
+      const bValues = Array.from(b)
+      const aValues = Array.from(a)
+      aValues.filter((x) => !bValues.some((y) => deepEqual(x, y)))
+        .forEach((x) => changes.push({ op: "remove", path: [...path, x], oldValue: x }))
+      bValues.filter((y) => !aValues.some((x) => deepEqual(x, y)))
+        .forEach((y) => changes.push({ op: "add", path: [...path, y], value: y }))
+    } else if (a instanceof Map) {
+      a.forEach((v, k) => {
+        b.has(k) ? diff(v, b.get(k), [...path, k]) : changes.push({ op: "remove", path: [...path, k], oldValue: v })
+      })
+      b.forEach((v, k) => {
+        if (!a.has(k)) changes.push({ op: "add", path: [...path, k], value: v })
+      })
+    } else {
+      ownEnumerableKeys(a).forEach((key) => {
+        key in b ? diff(a[key], b[key], [...path, key]) : changes.push({ op: "remove", path: [...path, key], oldValue: a[key] })
+      })
+      ownEnumerableKeys(b).forEach((key) => {
+        if (!(key in a)) changes.push({ op: "add", path: [...path, key], value: b[key] })
+      })
+    }
+    comparing.pop()
+  }
+
+  diff(a, b, [])
+  return changes
+}
+
+//structs which can be compared key by key (Dates and RegExps are compared as a whole)
+function isSameStructKind(a: any, b: any) {
+  if (a === null || b === null || typeof a !== "object" || typeof b !== "object") return false
+  if (a instanceof Date || a instanceof RegExp) return false
+  return toType(a) === toType(b) && Object.getPrototypeOf(a) === Object.getPrototypeOf(b)
+}
+
+//-----------------------------------------
+// LIBRARY CONFIGURATION
+//------------------------------------------
+
+//types used for function signatures
+export type utilsConfig = {
+  autoFreeze: boolean,
+  strict: boolean
+}
+
+const config: utilsConfig = { autoFreeze: true, strict: false }
+let immerPluginsEnabled = false
+
+/**
+ * @author Antony Lao
+ * @description configures the copy-on-write helpers of the library (`copyOnWrite`, `setIn`, `applyJsonPatch`...)
+ * @ex ```configure({ strict: true }) //e.g. in a jest setup file```
+ * @param options.autoFreeze : the values returned by the copy-on-write helpers are deeply frozen (default: true). 
+ *   Same as immer `setAutoFreeze`
+ * @param options.strict : the inputs of the copy-on-write helpers are deeply frozen too (default: false), 
+ *   so that mutating a shared state throws. Ignored when `process.env.NODE_ENV` is "production"
+ * @note frozen Maps and Sets throw on `set`, `add`, `delete` and `clear`. 
+ *   Objects from custom classes are frozen only if they are `[immerable]`
+ * @returns the new configuration
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function configure(options: Partial<utilsConfig>): Readonly<utilsConfig> {
+  Object.assign(config, options)
+  setAutoFreeze(config.autoFreeze)
+  return getConfig()
+}
+
+export function getConfig(): Readonly<utilsConfig> {
+  return { ...config }
+}
+
+//the immer plugins are enabled once, the first time a helper needs them
+function setupImmer() {
+  if (immerPluginsEnabled) return
+  enableMapSet()
+  enablePatches()
+  immerPluginsEnabled = true
+}
+
+//strict mode: deep-freezes the input of a copy-on-write helper, so that any mutation outside of it throws
+function guardInput<T>(obj: T): T {
+  const isProduction = typeof process !== "undefined" && process.env.NODE_ENV === "production"
+  return config.strict && !isProduction ? freeze(obj, true) : obj
+}
+
+//deep-freezes a value built without immer, when auto-freeze is on
+function freezeOutput<T>(obj: T): T {
+  return config.autoFreeze ? freeze(obj, true) : obj
+}
+
+//-----------------------------------------
+// HELPERS FOR IMMUTABLES (WITH IMMER)
+//------------------------------------------
+
+/**
+ * @author: Antony Lao
+ * @description: copy-on-write function, using Immer library
+ * @Warning: if you mutate state of other objects inside the changeFn, it will mutate those objects for real!
+ * @ex
+ * ```
+ * let obj = {x:5}; let updatedObj = copyOnWrite(obj, draft => {draft.x = 1})
+ * ```
+ * @notes inside the fn body, the object is a draft object. 
+ *   For debugging, transform the draft to objects, use `current(<draft>)`. 
+ *   It is possible to return a new data using `return` in the callback, but ONLY 
+ *   if you didn't modify the draft.
+ * @param obj : can be any array or plain object, Map or Set.
+ *   For object from user-defined classes, add `[immerable] = true` in the class definition
+ * @param changeFn : you can use in the function any mutative method on the object, it will not modify it
+ * @returns the copy-on-write object
+ * @last update: 19/07/2024; verified: 19/07/2024; tested: NO (I trust the Immer library)
+ */
+// rewrote function signature to have the correct return types https://github.com/immerjs/immer/issues/787 
+export function copyOnWrite<T>(obj: T, changeFn: (draft: Draft<T>) => Draft<T> | void) {
+  setupImmer()
+  return produce(guardInput(obj), changeFn);
+}
+
+type JsonPatchOperation = {
+  op: "add" | "remove" | "replace" | "move" | "copy" | "test",
+  path: string,
+  value?: any,
+  from?: string
+}
+
+/**
+ * @author Antony Lao
+ * @description same as `copyOnWrite`, but also returns the changes made by `changeFn`, as immer patches: 
+ *   `patches` to go from `obj` to `state`, and `inversePatches` to go back from `state` to `obj` (e.g. for undo)
+ * @ex
+ * ```
+ * const { state, patches, inversePatches } = copyOnWriteWithPatches({ x: 5 }, draft => { draft.x = 1 })
+ * // patches: [{ op: "replace", path: ["x"], value: 1 }], inversePatches: [{ op: "replace", path: ["x"], value: 5 }]
+ * sendToServer(toJsonPatch(patches, obj))
+ * ```
+ * @note the patches can be applied with immer `applyPatches`, or converted to JSON Patch with `toJsonPatch`
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function copyOnWriteWithPatches<T>(obj: T, changeFn: (draft: Draft<T>) => Draft<T> | void):
+  { state: T, patches: Array<Patch>, inversePatches: Array<Patch> } {
+  setupImmer()
+  const [state, patches, inversePatches] = produceWithPatches(guardInput(obj), changeFn)
+  return { state: state as T, patches, inversePatches }
+}
+
+/**
+ * @author Antony Lao
+ * @description converts immer patches to a JSON Patch document (RFC 6902): the paths become JSON pointers like "/a/0/b"
+ * @param patches : immer patches, e.g. from `copyOnWriteWithPatches`
+ * @param base : the state the patches apply to (`obj` for `patches`, `state` for `inversePatches`),
+ *   used to know which path segments are Map keys or Set values
+ * @note Map keys are converted to strings in the path. For Sets, "add" uses the path ".../-" 
+ *   and "remove" the index of the value, with the `value` kept in the operation
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function toJsonPatch(patches: Array<Patch>, base: any): Array<JsonPatchOperation> {
+  setupImmer()
+  let state = base
+  return patches.map((patch) => {
+    const parent = getAtPath(state, patch.path.slice(0, -1))
+    const segments = patch.path.map(String)
+    if (parent instanceof Set && patch.op === "add") segments[segments.length - 1] = "-"
+
+    const operation: JsonPatchOperation = { op: patch.op, path: toJsonPointer(segments) }
+    if (patch.op !== "remove" || parent instanceof Set) operation.value = patch.value
+    state = applyPatches(state, [patch])
+    return operation
+  })
+}
+
+/**
+ * @author Antony Lao
+ * @description converts a JSON Patch document (RFC 6902) with "add", "remove" and "replace" operations to immer patches
+ * @param base : the state the patch applies to, used to find the Map keys/Set values from the path segments
+ * @note a path segment on a Map is matched with the key having the same string value. A new key is added as a string
+ * @note use `applyJsonPatch` for the "move", "copy" and "test" operations
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function fromJsonPatch(jsonPatch: Array<JsonPatchOperation>, base: any): Array<Patch> {
+  setupImmer()
+  let state = base
+  return jsonPatch.map((operation) => {
+    if (operation.op !== "add" && operation.op !== "remove" && operation.op !== "replace") {
+      throw new Error(`fromJsonPatch: unsupported operation "${operation.op}", use applyJsonPatch`)
+    }
+    const patch = toImmerPatch(state, operation)
+    state = applyPatches(state, [patch])
+    return patch
+  })
+}
+
+/**
+ * @author Antony Lao
+ * @description applies a JSON Patch document (RFC 6902) to `obj`, with copy-on-write: `obj` is not modified, 
+ *   and the parts of `obj` which are not changed are shared with the returned value
+ * @ex ```applyJsonPatch({ a: [1] }, [{ op: "add", path: "/a/-", value: 2 }]) // => { a: [1, 2] }```
+ * @note supports all the operations: "add", "remove", "replace", "move", "copy" and "test" (compared with `deepEqual`).
+ *   Throws an Error if a "test" fails or a path doesn't exist
+ * @note Map keys and Set values are supported, like in `fromJsonPatch`
+ * @uses immer `applyPatches`
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function applyJsonPatch<T>(obj: T, jsonPatch: Array<JsonPatchOperation>): T {
+  setupImmer()
+  return jsonPatch.reduce((state, operation) => {
+    switch (operation.op) {
+      case "test": {
+        const value = getAtPath(state, toExistingPath(state, operation.path))
+        if (!deepEqual(value, operation.value)) throw new Error(`applyJsonPatch: test failed at "${operation.path}"`)
+        return state
+      }
+      case "move": {
+        const value = getAtPath(state, toExistingPath(state, fromOf(operation)))
+        const removed = applyPatches(state, [toImmerPatch(state, { op: "remove", path: operation.from })])
+        return applyPatches(removed, [toImmerPatch(removed, { op: "add", path: operation.path, value })])
+      }
+      case "copy": {
+        const value = deepClone(getAtPath(state, toExistingPath(state, fromOf(operation))))
+        return applyPatches(state, [toImmerPatch(state, { op: "add", path: operation.path, value })])
+      }
+      default:
+        return applyPatches(state, [toImmerPatch(state, operation)])
+    }
+  }, guardInput(obj))
+}
+
+type historyOptions = {
+  limit?: number
+}
+
+type HistoryStore<T> = {
+  readonly state: T,
+  readonly canUndo: boolean,
+  readonly canRedo: boolean,
+  update: (changeFn: (draft: Draft<T>) => Draft<T> | void) => T,
+  transaction: (fn: () => void) => T,
+  undo: () => T,
+  redo: () => T,
+  subscribe: (listener: (state: T) => void) => () => void
+}
+
+/**
+ * @author Antony Lao
+ * @description creates a store keeping an immutable state with an undo/redo history. 
+ *   The state is updated with copy-on-write, and only the patches are kept in the history (not the whole states)
+ * @ex
+ * ```
+ * const history = createHistory({ todos: [] }, { limit: 50 })
+ * history.update(draft => { draft.todos.push("write tests") })
+ * history.transaction(() => {   // one history entry for both updates
+ *   history.update(draft => { draft.todos.push("a") })
+ *   history.update(draft => { draft.todos.push("b") })
+ * })
+ * history.undo()                // removes "a" and "b"
+ * ```
+ * @note works with the same values as `copyOnWrite`: arrays, plain objects, Maps, Sets and classes with `[immerable] = true`
+ * @note `limit` is the maximum number of undo steps kept (default: no limit). An update which changes nothing is not recorded,
+ *   and an update after an undo clears the redo steps
+ * @note the listeners passed to `subscribe` are called with the new state after each update (once at the end of a transaction),
+ *   undo and redo. `subscribe` returns a function to unsubscribe
+ * @note if the function passed to `transaction` throws, the updates of the transaction are reverted and the error is rethrown
+ * @uses copyOnWriteWithPatches
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function createHistory<T>(initial: T, { limit = Infinity }: historyOptions = {}): HistoryStore<T> {
+  type HistoryEntry = { patches: Array<Patch>, inversePatches: Array<Patch> }
+  let state = initial
+  let undoStack: Array<HistoryEntry> = []
+  let redoStack: Array<HistoryEntry> = []
+  let pendingEntry: HistoryEntry | undefined; //entry being built during a transaction
+  const listeners = new Set<(state: T) => void>()
+
+  function notify() {
+    listeners.forEach((listener) => listener(state))
+  }
+
+  function record(entry: HistoryEntry) {
+    if (entry.patches.length === 0) return
+    undoStack.push(entry)
+    if (undoStack.length > limit) undoStack = undoStack.slice(undoStack.length - limit)
+    redoStack = []
+  }
+
+  function update(changeFn: (draft: Draft<T>) => Draft<T> | void) {
+    const { state: newState, patches, inversePatches } = copyOnWriteWithPatches(state, changeFn)
+    state = newState
+    if (pendingEntry) {
+      //the inverse patches of the last update have to be applied first
+      pendingEntry.patches.push(...patches)
+      pendingEntry.inversePatches.unshift(...inversePatches)
+    } else {
+      record({ patches, inversePatches })
+      notify()
+    }
+    return state
+  }
+
+  function transaction(fn: () => void) {
+    if (pendingEntry) {
+      fn() //nested transaction: part of the outer one
+      return state
+    }
+    const entry: HistoryEntry = { patches: [], inversePatches: [] }
+    pendingEntry = entry
+    try {
+      fn()
+    } catch (error) {
+      state = applyPatches(state, entry.inversePatches)
+      throw error
+    } finally {
+      pendingEntry = undefined
+    }
+    record(entry)
+    if (entry.patches.length > 0) notify()
+    return state
+  }
+
+  function undo() {
+    const entry = undoStack.pop()
+    if (entry === undefined) return state
+    state = applyPatches(state, entry.inversePatches)
+    redoStack.push(entry)
+    notify()
+    return state
+  }
+
+  function redo() {
+    const entry = redoStack.pop()
+    if (entry === undefined) return state
+    state = applyPatches(state, entry.patches)
+    undoStack.push(entry)
+    notify()
+    return state
+  }
+
+  return {
+    get state() { return state },
+    get canUndo() { return undoStack.length > 0 },
+    get canRedo() { return redoStack.length > 0 },
+    update,
+    transaction,
+    undo,
+    redo,
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => { listeners.delete(listener) }
+    }
+  }
+}
+
+//JSON POINTER HELPERS (for JSON Patch)
+function toJsonPointer(segments: Array<string>): string {
+  return segments.map((segment) => "/" + segment.replace(/~/g, "~0").replace(/\//g, "~1")).join("")
+}
+
+function parseJsonPointer(pointer: string): Array<string> {
+  if (pointer === "") return []
+  if (pointer[0] !== "/") throw new Error(`invalid JSON pointer "${pointer}"`)
+  return pointer.slice(1).split("/").map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+}
+
+//converts the string segments of a JSON pointer to an immer path, according to the structs of `state`
+function toPath(state: any, segments: Array<string>): Array<any> {
+  let current = state
+  return segments.map((segment, idx) => {
+    let key: any = segment
+    if (current instanceof Array) {
+      key = segment === "-" ? current.length : Number(segment)
+    } else if (current instanceof Map) {
+      const existingKey = Array.from(current.keys()).find((k) => String(k) === segment)
+      if (existingKey !== undefined) key = existingKey
+    } else if (current instanceof Set) {
+      key = segment === "-" ? current.size : Number(segment)
+    }
+    if (idx < segments.length - 1) {
+      current = getChild(current, key)
+      if (current === null || typeof current !== "object") {
+        throw new Error(`path "${toJsonPointer(segments)}" doesn't exist`)
+      }
+    }
+    return key
+  })
+}
+
+//same as `toPath`, but the last segment must exist too (for "remove", "replace", "test", and the `from` of "move"/"copy")
+function toExistingPath(state: any, pointer: string): Array<any> {
+  const path = toPath(state, parseJsonPointer(pointer))
+  if (path.length > 0 && !hasChild(getAtPath(state, path.slice(0, -1)), path[path.length - 1])) {
+    throw new Error(`path "${pointer}" doesn't exist`)
+  }
+  return path
+}
+
+function fromOf({ op, from }: JsonPatchOperation): string {
+  if (from === undefined) throw new Error(`applyJsonPatch: "${op}" operation without "from"`)
+  return from
+}
+
+function toImmerPatch(state: any, { op, path, value }: JsonPatchOperation): Patch {
+  const immerPath = op === "add" ? toPath(state, parseJsonPointer(path)) : toExistingPath(state, path)
+  const parent = getAtPath(state, immerPath.slice(0, -1))
+  if (parent instanceof Set) {
+    //immer adds/removes the value itself for Sets: we find the value in the Set for a removal
+    const setValue = op === "remove"
+      ? Array.from(parent).find((x, idx) => value !== undefined ? deepEqual(x, value) : idx === immerPath[immerPath.length - 1])
+      : value
+    return { op, path: immerPath, value: setValue } as Patch
+  }
+  return op === "remove" ? { op, path: immerPath } : { op, path: immerPath, value } as Patch
+}
+
+function getChild(struct: any, key: any) {
+  if (struct instanceof Map) return struct.get(key)
+  if (struct instanceof Set) return Array.from(struct)[key]
+  return struct[key]
+}
+
+function hasChild(struct: any, key: any): boolean {
+  if (struct instanceof Map) return struct.has(key)
+  if (struct instanceof Array || struct instanceof Set) {
+    const length = struct instanceof Array ? struct.length : struct.size
+    return Number.isInteger(key) && key >= 0 && key < length
+  }
+  return Object.prototype.hasOwnProperty.call(struct, key)
+}
+
+function getAtPath(state: any, path: ReadonlyArray<any>) {
+  return path.reduce((current, key) => getChild(current, key), state)
+}
+
+//TYPED PATHS (for getIn, setIn, updateIn, deleteIn, hasIn)
+//`Prev` limits the depth of the paths, so that recursive types don't make the type-checker loop
+type Prev = [never, 0, 1, 2, 3, 4, 5, 6]
+
+//path segments: object keys, array indexes, Map keys, and Set values
+export type Path<T, Depth extends number = 7> = [Depth] extends [never] ? never
+  : T extends Map<infer K, infer V> ? [K] | [K, ...Path<V, Prev[Depth]>]
+  : T extends Set<infer V> ? [V] | [V, ...Path<V, Prev[Depth]>]
+  : T extends ReadonlyArray<infer E> ? [number] | [number, ...Path<E, Prev[Depth]>]
+  : T extends object ? { [K in keyof T]-?: [K] | [K, ...Path<T[K], Prev[Depth]>] }[keyof T]
+  : never
+
+type PathChild<T, K> = T extends Map<any, infer V> ? V
+  : T extends Set<infer V> ? V
+  : T extends ReadonlyArray<infer E> ? E
+  : K extends keyof T ? T[K]
+  : never
+
+export type PathValue<T, P extends ReadonlyArray<any>> = P extends readonly [] ? T
+  : P extends readonly [infer K, ...infer Rest] ? PathValue<PathChild<T, K>, Rest>
+  : never
+
+/**
+ * @author Antony Lao
+ * @description returns the value at `path` in `obj`, or `undefined` if the path doesn't exist
+ * @ex ```getIn(state, ["users", 0, "address", "city"])```
+ * @note the path is typed: TypeScript checks each segment against the type of `obj`. 
+ *   The segments are object keys, array indexes, Map keys, or Set values (the segment is the value itself)
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function getIn<T, const P extends Path<T>>(obj: T, path: P): PathValue<T, P> | undefined {
+  let current: any = obj
+  for (const key of path as ReadonlyArray<any>) {
+    if (!hasPathChild(current, key)) return undefined
+    current = getPathChild(current, key)
+  }
+  return current
+}
+
+/**
+ * @author Antony Lao
+ * @description checks if `path` exists in `obj`
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function hasIn<T, const P extends Path<T>>(obj: T, path: P): boolean {
+  let current: any = obj
+  for (const key of path as ReadonlyArray<any>) {
+    if (!hasPathChild(current, key)) return false
+    current = getPathChild(current, key)
+  }
+  return true
+}
+
+/**
+ * @author Antony Lao
+ * @description copy-on-write: returns a new value where the value at `path` is replaced by `fn` applied to it.
+ *   Only the structs along the path are copied, the other branches are shared with `obj` (no immer needed)
+ * @ex ```const newState = updateIn(state, ["cart", "items", "apple"], (qty) => qty + 1) //cart.items is a Map```
+ * @note missing structs along the path are created as literal objects. If `fn` returns the same value, returns `obj`
+ * @note custom objects keep their prototype when copied. For a Set, the value is replaced by the new one at the same position
+ * @note like with `copyOnWrite`, the returned value is frozen when auto-freeze is on (see `configure`)
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function updateIn<T, const P extends Path<T>>(obj: T, path: P, fn: (value: PathValue<T, P>) => PathValue<T, P>): T {
+  return freezeOutput(updateAtPath(guardInput(obj), path as ReadonlyArray<any>, 0, fn))
+}
+
+/**
+ * @author Antony Lao
+ * @description copy-on-write: returns a new value where the value at `path` is `value`
+ * @ex ```setIn({ a: { b: 1 }, c: {} }, ["a", "b"], 2) // => { a: { b: 2 }, c: <same object> }```
+ * @uses updateIn
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function setIn<T, const P extends Path<T>>(obj: T, path: P, value: PathValue<T, P>): T {
+  return updateIn(obj, path, () => value)
+}
+
+/**
+ * @author Antony Lao
+ * @description copy-on-write: returns a new value without the value at `path` 
+ *   (the key is deleted for objects and Maps, the element removed for arrays and Sets)
+ * @note if the path doesn't exist, returns `obj`
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function deleteIn<T, const P extends Path<T>>(obj: T, path: P): T {
+  const segments = path as ReadonlyArray<any>
+  if (segments.length === 0 || !hasIn(obj, path)) return obj
+  const parentPath = segments.slice(0, -1)
+  const lastKey = segments[segments.length - 1]
+  return freezeOutput(updateAtPath(guardInput(obj), parentPath, 0, (parent) => withoutPathChild(parent, lastKey)))
+}
+
+function updateAtPath(struct: any, path: ReadonlyArray<any>, idx: number, fn: (value: any) => any): any {
+  if (idx === path.length) return fn(struct)
+  const key = path[idx]
+  const exists = hasPathChild(struct, key)
+  let child = exists ? getPathChild(struct, key) : undefined
+  if (!exists && idx < path.length - 1) child = {}
+  const newChild = updateAtPath(child, path, idx + 1, fn)
+  if (exists && newChild === child) return struct
+  return withPathChild(struct, key, newChild)
+}
+
+function hasPathChild(struct: any, key: any): boolean {
+  if (struct === null || typeof struct !== "object") return false
+  if (struct instanceof Map || struct instanceof Set) return struct.has(key)
+  //own properties only: "toString" is not a child of {}
+  return Object.prototype.hasOwnProperty.call(struct, key)
+}
+
+function getPathChild(struct: any, key: any) {
+  if (struct instanceof Map) return struct.get(key)
+  if (struct instanceof Set) return key
+  return struct[key]
+}
+
+function shallowCopy(struct: any) {
+  if (struct instanceof Array) return struct.slice()
+  if (struct instanceof Map) return new Map(struct)
+  if (struct instanceof Set) return new Set(struct)
+  return Object.assign(Object.create(Object.getPrototypeOf(struct)), struct)
+}
+
+function withPathChild(struct: any, key: any, child: any) {
+  if (struct instanceof Set) {
+    //we keep the position of the replaced value
+    return struct.has(key) ? new Set(Array.from(struct, (x) => x === key ? child : x)) : new Set([...struct, child])
+  }
+  const copy = shallowCopy(struct)
+  copy instanceof Map ? copy.set(key, child) : copy[key] = child
+  return copy
+}
+
+function withoutPathChild(struct: any, key: any) {
+  const copy = shallowCopy(struct)
+  if (copy instanceof Array) copy.splice(key, 1)
+  else if (copy instanceof Map || copy instanceof Set) copy.delete(key)
+  else delete copy[key]
+  return copy
+}
+
+//-----------------------------------------
+// SERIALIZATION (LOSSLESS JSON WITH TYPE TAGS)
+//------------------------------------------
+
+//types used for function signatures
+type TaggedValue = { $type: string, value: any }
+type serializableOptions<T> = {
+  toJSON?: (instance: T) => any,
+  fromJSON?: (data: any) => T
+}
+type SerializableClass<T = any> = {
+  name: string,
+  prototype: object,
+  toJSON: (instance: T) => any,
+  fromJSON: (data: any) => T
+}
+
+const builtinTypeTags = ["Object", "Map", "Set", "Date", "BigInt", "Number", "undefined"]
+const serializableClasses: Array<SerializableClass> = []
+
+/**
+ * @author Antony Lao
+ * @description registers a class for `serialize`/`deserialize`: its instances are tagged with `name`, and revived as instances of the class
+ * @ex 
+ * ```
+ * registerSerializable("Money", Money, { toJSON: (money) => [money.amount, money.currency], fromJSON: ([amount, currency]) => new Money(amount, currency) })
+ * ```
+ * @param name : tag written in the JSON, must be unique
+ * @param options.toJSON : data stored for an instance (default: its own enumerable properties). 
+ *   The data can contain Maps, Sets... which are serialized too
+ * @param options.fromJSON : creates an instance from the data (default: an object with the class prototype, 
+ *   and the properties of the data, without calling the constructor)
+ * @returns a function unregistering the class
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function registerSerializable<T extends object>(name: string, ctor: abstract new (...args: any[]) => T,
+  { toJSON, fromJSON }: serializableOptions<T> = {}): () => void {
+  if (builtinTypeTags.indexOf(name) !== -1 || serializableClasses.some((registered) => registered.name === name)) {
+    throw new Error(`registerSerializable: the type tag "${name}" is already used`)
+  }
+  const serializableClass: SerializableClass<T> = {
+    name,
+    prototype: ctor.prototype,
+    toJSON: toJSON ?? ((instance) => Object.assign({}, instance)),
+    fromJSON: fromJSON ?? ((data) => Object.assign(Object.create(ctor.prototype), data))
+  }
+  serializableClasses.push(serializableClass)
+  return () => {
+    const idx = serializableClasses.indexOf(serializableClass)
+    if (idx !== -1) serializableClasses.splice(idx, 1)
+  }
+}
+
+/**
+ * @author Antony Lao
+ * @description converts `value` to a JSON string, keeping what JSON loses: Maps (with any keys), Sets, Dates, BigInts, 
+ *   `undefined`, NaN, ±Infinity, -0 and the instances of the classes registered with `registerSerializable`.
+ *   These values are written as `{ "$type": <type tag>, "value": <data> }` objects. Use `deserialize` to get `value` back
+ * @ex ```deserialize(serialize({ at: new Date(0), tags: new Set(["a"]) })) // => { at: Date, tags: Set {"a"} }```
+ * @note the instances of the classes not registered are serialized as literal objects. 
+ *   Circular references are not supported (throws a TypeError, like JSON.stringify)
+ * @param space : same as the `space` parameter of JSON.stringify
+ * @uses jsonReplacer
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function serialize(value: any, space?: string | number): string {
+  return JSON.stringify(value, jsonReplacer, space)
+}
+
+/**
+ * @author Antony Lao
+ * @description converts back a JSON string created by `serialize`
+ * @note the classes used in the JSON must be registered with `registerSerializable`, else an Error is thrown
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function deserialize<T = any>(json: string): T {
+  return reviveDeep(JSON.parse(json))
+}
+
+/**
+ * @author Antony Lao
+ * @description replacer for JSON.stringify, writing the values not supported by JSON with type tags (see `serialize`)
+ * @ex ```JSON.stringify(state, jsonReplacer)```
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function jsonReplacer(this: any, key: string, value: any): any {
+  //`this[key]` is the value before its `toJSON` method is called (Dates have one)
+  const original = this[key]
+  if (original === undefined) return { $type: "undefined", value: null }
+  if (typeof original === "bigint") return { $type: "BigInt", value: original.toString() }
+  if (typeof original === "number" && (!isFinite(original) || Object.is(original, -0))) {
+    return { $type: "Number", value: Object.is(original, -0) ? "-0" : String(original) }
+  }
+  if (original instanceof Date) return { $type: "Date", value: isNaN(original.getTime()) ? "Invalid Date" : original.toISOString() }
+  if (original instanceof Map) return { $type: "Map", value: Array.from(original) }
+  if (original instanceof Set) return { $type: "Set", value: Array.from(original) }
+  if (original !== null && typeof original === "object") {
+    const serializableClass = serializableClasses.find((registered) => registered.prototype === Object.getPrototypeOf(original))
+    if (serializableClass) return { $type: serializableClass.name, value: serializableClass.toJSON(original) }
+    //a literal object having a `$type` key is wrapped, so that it is not taken for a tagged value
+    if (isObject(value) && Object.prototype.hasOwnProperty.call(value, "$type")) return { $type: "Object", value: Object.entries(value) }
+  }
+  return value
+}
+
+/**
+ * @author Antony Lao
+ * @description reviver for JSON.parse, reviving the values written with type tags by `jsonReplacer`
+ * @ex ```JSON.parse(json, jsonReviver)```
+ * @warning JSON.parse removes the object keys for which the reviver returns `undefined`: 
+ *   use `deserialize` to keep the keys with `undefined` values
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function jsonReviver(key: string, value: any): any {
+  return isTaggedValue(value) ? reviveTagged(value) : value
+}
+
+function isTaggedValue(value: any): value is TaggedValue {
+  return isObject(value) && typeof value.$type === "string" && "value" in value && Object.keys(value).length === 2
+}
+
+//revives a tagged value whose data has already been revived
+function reviveTagged({ $type, value }: TaggedValue): any {
+  switch ($type) {
+    case "Object": return Object.fromEntries(value)
+    case "undefined": return undefined
+    case "BigInt": return BigInt(value)
+    case "Number": return Number(value)
+    case "Date": return new Date(value)
+    case "Map": return new Map(value)
+    case "Set": return new Set(value)
+  }
+  const serializableClass = serializableClasses.find((registered) => registered.name === $type)
+  if (serializableClass === undefined) throw new Error(`deserialize: unknown type tag "${$type}", use registerSerializable`)
+  return serializableClass.fromJSON(value)
+}
+
+//revives the values bottom-up, like JSON.parse with a reviver, but keeping the keys with `undefined` values
+function reviveDeep(value: any): any {
+  if (value instanceof Array) return value.map(reviveDeep)
+  if (!isObject(value)) return value
+  const revived = {}
+  Object.keys(value).forEach((key) => setOwnProperty(revived, key, reviveDeep(value[key])))
+  return isTaggedValue(revived) ? reviveTagged(revived) : revived
+}
+
+//-----------------------------------------
+// SCHEMAS (RUNTIME VALIDATION WITH STATIC TYPES)
+//------------------------------------------
+
+//types used for function signatures
+export type SchemaIssue = {
+  path: Array<PropertyKey>,
+  message: string
+}
+type SchemaCheck = (value: unknown, path: Array<PropertyKey>) => Array<SchemaIssue>
+//static type of the values validated by a schema
+export type Infer<S> = S extends Schema<infer T> ? T : never
+type Shape = Record<string, Schema<any>>
+type Simplify<T> = { [K in keyof T]: T[K] } & {}
+//schema created by `.optional()`: the marker is needed because `undefined` is in every type without strictNullChecks
+type OptionalSchema<T> = Schema<T | undefined> & { readonly isOptional: true }
+//the keys whose schema is optional are optional
+type InferShape<S extends Shape> = Simplify<
+  { [K in keyof S as S[K] extends { isOptional: true } ? never : K]: Infer<S[K]> } &
+  { [K in keyof S as S[K] extends { isOptional: true } ? K : never]?: Infer<S[K]> }>
+
+/**
+ * @author Antony Lao
+ * @description error thrown by `Schema#parse`, with all the issues found in the value
+ * @note the message lists the issues, one per line, as `<path>: <message>`
+ */
+export class SchemaError extends Error {
+  issues: Array<SchemaIssue>;
+
+  constructor(issues: Array<SchemaIssue>) {
+    super(issues.map((issue) => `${formatSchemaPath(issue.path)}: ${issue.message}`).join("\n"))
+    //needed to keep `instanceof` working when compiling classes extending Error to es5
+    Object.setPrototypeOf(this, SchemaError.prototype)
+    this.name = "SchemaError"
+    this.issues = issues
+  }
+}
+
+/**
+ * @author Antony Lao
+ * @description validator of unknown data (e.g. an API response), created with the builder `s`. 
+ *   The TypeScript type of the valid values is inferred: `Infer<typeof mySchema>`
+ * @note the schemas only validate: `parse` returns the value itself (the unknown keys of objects are kept)
+ */
+export class Schema<T> {
+  readonly description: string;
+  readonly isOptional: boolean = false;
+  private readonly check: SchemaCheck;
+
+  constructor(description: string, check: SchemaCheck) {
+    this.description = description
+    this.check = check
+  }
+
+  //returns the issues found in `value`, with the paths starting at `path`
+  validate(value: unknown, path: Array<PropertyKey> = []): Array<SchemaIssue> {
+    return this.check(value, path)
+  }
+
+  //returns `value` typed if it is valid, else throws a SchemaError
+  parse(value: unknown): T {
+    const issues = this.validate(value)
+    if (issues.length > 0) throw new SchemaError(issues)
+    return value as T
+  }
+
+  safeParse(value: unknown): { success: true, data: T } | { success: false, error: SchemaError } {
+    const issues = this.validate(value)
+    return issues.length === 0 ? { success: true, data: value as T } : { success: false, error: new SchemaError(issues) }
+  }
+
+  is(value: unknown): value is T {
+    return this.validate(value).length === 0
+  }
+
+  //the optional keys of `s.object` must be created with `.optional()` last (after `.nullable()` or `.refine()`)
+  optional(): OptionalSchema<T> {
+    const schema = new Schema<T | undefined>(`${this.description} | undefined`, (value, path) => value === undefined ? [] : this.check(value, path))
+    return Object.assign(schema, { isOptional: true as const })
+  }
+
+  nullable(): Schema<T | null> {
+    return new Schema(`${this.description} | null`, (value, path) => value === null ? [] : this.check(value, path))
+  }
+
+  //adds a check, done only if the value is valid for this schema
+  refine(predicate: (value: T) => boolean, message: string): Schema<T> {
+    return new Schema(this.description, (value, path) => {
+      const issues = this.check(value, path)
+      if (issues.length > 0) return issues
+      return predicate(value as T) ? [] : [{ path, message }]
+    })
+  }
+}
+
+function primitiveSchema<T>(type: TypeName): Schema<T> {
+  return new Schema(type, (value, path) => typeOf(value) === type ? [] : [typeIssue(type, value, path)])
+}
+
+function typeIssue(expected: string, value: unknown, path: Array<PropertyKey>): SchemaIssue {
+  return { path, message: `expected ${expected}, got ${typeOf(value)}` }
+}
+
+/**
+ * @author Antony Lao
+ * @description builder of schemas, to validate unknown data at runtime with path-precise errors
+ * @ex
+ * ```
+ * const user = s.object({
+ *   name: s.string().refine((name) => name.length > 0, "must not be empty"),
+ *   role: s.union(s.literal("admin"), s.literal("user")),
+ *   tags: s.set(s.string()).optional(),
+ * })
+ * type User = Infer<typeof user> // { name: string, role: "admin" | "user", tags?: Set<string> }
+ * user.parse({ name: "Ann", role: "guest" }) // throws SchemaError: "role: expected "admin" | "user", got "guest""
+ * ```
+ * @note `s.number()` rejects NaN. The paths of the issues are like `users[0].tags`: the segments are the object keys, 
+ *   the indexes for arrays and Sets, and the keys for Maps
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export const s = {
+  string: () => primitiveSchema<string>("string"),
+  number: () => primitiveSchema<number>("number").refine((x) => !isNaN(x), "expected number, got NaN"),
+  boolean: () => primitiveSchema<boolean>("boolean"),
+  bigint: () => primitiveSchema<bigint>("bigint"),
+  date: () => primitiveSchema<Date>("date").refine((date) => !isNaN(date.getTime()), "expected date, got Invalid Date"),
+  unknown: () => new Schema<unknown>("unknown", () => []),
+
+  literal<const L extends string | number | boolean | null | undefined>(literal: L): Schema<L> {
+    const description = typeof literal === "string" ? `"${literal}"` : String(literal)
+    return new Schema(description, (value, path) => value === literal ? [] : [{
+      path, message: `expected ${description}, got ${typeof value === "string" ? `"${value}"` : typeOf(value)}`
+    }])
+  },
+
+  array<T>(item: Schema<T>): Schema<Array<T>> {
+    return new Schema(`Array<${item.description}>`, (value, path) => typeOf(value) !== "array"
+      ? [typeIssue("array", value, path)]
+      : flatten((value as Array<unknown>).map((x, idx) => item.validate(x, [...path, idx]))))
+  },
+
+  set<T>(item: Schema<T>): Schema<Set<T>> {
+    return new Schema(`Set<${item.description}>`, (value, path) => typeOf(value) !== "set"
+      ? [typeIssue("set", value, path)]
+      : flatten(Array.from(value as Set<unknown>, (x, idx) => item.validate(x, [...path, idx]))))
+  },
+
+  map<K, V>(key: Schema<K>, valueSchema: Schema<V>): Schema<Map<K, V>> {
+    return new Schema(`Map<${key.description}, ${valueSchema.description}>`, (value, path) => typeOf(value) !== "map"
+      ? [typeIssue("map", value, path)]
+      : flatten(Array.from(value as Map<unknown, unknown>, ([k, v]) => [
+        ...key.validate(k, [...path, k as PropertyKey]).map((issue) => ({ ...issue, message: `invalid key: ${issue.message}` })),
+        ...valueSchema.validate(v, [...path, k as PropertyKey])
+      ])))
+  },
+
+  object<S extends Shape>(shape: S): Schema<InferShape<S>> {
+    const description = `{ ${Object.keys(shape).map((key) => `${key}: ${shape[key].description}`).join(", ")} }`
+    return new Schema(description, (value, path) => {
+      const type = typeOf(value)
+      if (type !== "plainObject" && type !== "classInstance") return [typeIssue("object", value, path)]
+      return flatten(Object.keys(shape).map((key) => shape[key].validate((value as object)[key], [...path, key])))
+    })
+  },
+
+  union<Schemas extends Array<Schema<any>>>(...schemas: Schemas): Schema<Infer<Schemas[number]>> {
+    const description = schemas.map((schema) => schema.description).join(" | ")
+    return new Schema(description, (value, path) => {
+      if (schemas.some((schema) => schema.is(value))) return []
+      const got = typeof value === "string" ? `"${value}"` : typeOf(value)
+      return [{ path, message: `expected ${description}, got ${got}` }]
+    })
+  },
+
+  instanceOf<T>(ctor: abstract new (...args: any[]) => T): Schema<T> {
+    return new Schema(ctor.name, (value, path) => value instanceof ctor ? [] : [typeIssue(ctor.name, value, path)])
+  },
+}
+
+function flatten<T>(arrays: Array<Array<T>>): Array<T> {
+  return ([] as Array<T>).concat(...arrays)
+}
+
+//path like `users[0].tags`
+function formatSchemaPath(path: Array<PropertyKey>): string {
+  if (path.length === 0) return "(root)"
+  return path.map((segment, idx) => {
+    if (typeof segment === "string") return idx === 0 ? segment : `.${segment}`
+    return `[${String(segment)}]`
+  }).join("")
+}
+
+//-----------------------------------------
+// MATH HELPERS
+//------------------------------------------
+
+//types used for function signatures
+type roundParams = {
+  num: number,
+  nbOfFloatDigits?: number,
+  mode?: RoundingMode
+}
+
+type meanParams<T = number> = {
+  arr: Array<T>;
+  pluck?: (x: T) => number;
+  rounded?: boolean
+  nbOfFloatDigits?: number;
+  mode?: RoundingMode;
+  //sums the values with `Decimal`, without floating point errors (e.g. for prices)
+  precise?: boolean;
+}
+type varianceOptions = {
+  sample?: boolean
+}
+
+//STATISTICS
+//each function takes an optional `pluck` function, to compute the statistics on `arr.map(pluck)`, like `min`/`max`.
+//EMPTY INPUT POLICY: `sum` returns 0, `mode` returns an empty array, and the other statistics return `undefined` 
+//  (except `mean`, which keeps returning 0, and `min`/`max`, which keep returning null: use `arithmeticMean`, `minBy`/`maxBy`)
+//  (like `variance` and `stddev` with `sample: true` when there is only one element)
+
+const identity = (x: any) => x
+
+export function sum<T = number>(arr: ReadonlyArray<T>, pluck: (x: T) => number = identity): number {
+  return arr.reduce((acc: number, x) => acc + pluck(x), 0)
 }
 
 /**
  * @author Antony Lao
- * @description returns a new literal object. The return value of `fn` becomes a key in the object, and 
- *   the value is the grouping of the struct values for which applying the function returns the same thing.
- *   Another optional function can be used to change the elts grouped
- *   The grouping are of the same type as the struct
- * @warning: fn and fnOnEltsGrouped can mutate stuff, in particular the struct passed!
- * @note available for array, map, set, object (literal or custom), but NO TYPECHECKING on struct 
- * @note on custom objects, the groupings values are literal objects
- * @ex ``` groupBy(myMap, (v,k) => {return v % 2 === 0})```
- * @last update: 25/07/2024; verified: 25/07/2024; tested: YES
- * 
+ * @description mean of `arr` (or of the values plucked with `pluck`), rounded to `nbOfFloatDigits` digits by default
+ * @ex ```mean({ arr: [1, 2, 4] }) // => 2.33; mean({ arr: sales, pluck: (sale) => sale.price, rounded: false })```
+ * @note returns 0 for an empty array. Use `arithmeticMean` for the statistic not rounded, `undefined` for an empty array
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
  */
-export function groupByWithObj(struct: any, fn: Function, fnOnEltsGrouped: Function = (x) => x) {
-  const ret: Record<any, any> = {}
+export function mean<T = number>({ arr, pluck = identity, rounded = true, nbOfFloatDigits = 2, mode, precise = false }: meanParams<T>): number {
+  if (arr.length === 0) return 0
+  const meanNum = precise ? preciseMean(arr.map(pluck)) : arithmeticMean(arr, pluck)
+  return rounded ? round({ num: meanNum, nbOfFloatDigits, mode }) : meanNum
+}
 
-  let newStruct;
-  if (isObject(struct)) {
-    newStruct = Object.entries(struct) //convert it to a Map
-  } else {
-    newStruct = struct
-  }
-  newStruct.forEach((...args) => {
-    let retKey = fn(...args);
-    let val;
-    //NB: in each case below, we mutate the value associated to the key of ret if the key exists
-    //we check against the type of the original struct, not newStruct
-    if (isObject(struct)) {
-      val = args[0];
-      const finalVal = fnOnEltsGrouped(val)
-      const [structKey, structVal] = [finalVal[0], finalVal[1]]
-      ret[retKey] !== undefined ? ret[retKey][structKey] = structVal : ret[retKey] = { [structKey]: structVal }
-    } else if (struct instanceof Map) {
-      //by default, the map arguments with forEach are (val, key)
-      val = args.slice(0, 2).reverse() //we want the args in the "intuitive" order (key, val) 
-      const finalVal = fnOnEltsGrouped(val) //the function applies to a tuple [k, v], like for literal objects
-      const [structKey, structVal] = [finalVal[0], finalVal[1]]
-      ret[retKey] !== undefined ? ret[retKey].set(structKey, structVal) : ret[retKey] = new Map([[structKey, structVal]])
-    } else if (struct instanceof Set) {
-      val = args[0]
-      const finalVal = fnOnEltsGrouped(val)
-      ret[retKey] !== undefined ? ret[retKey].add(finalVal) : ret[retKey] = new Set([finalVal])
-    } else if (struct instanceof Array) {
-      val = args[0]
-      const finalVal = fnOnEltsGrouped(val)
-      // console.log("🚀 ~ newStruct.forEach ~ val:", val)
+//mean not rounded, following the empty input policy: arithmeticMean([1, 2, 4]) => 2.3333333333333335
+export function arithmeticMean<T = number>(arr: ReadonlyArray<T>, pluck: (x: T) => number = identity): number | undefined {
+  if (arr.length === 0) return undefined
+  //this does floating point division because JS doesn't have separation between int/float
+  return sum(arr, pluck) / arr.length
+}
 
-      ret[retKey] !== undefined ? ret[retKey].push(finalVal) : ret[retKey] = [finalVal]
-    }
+//mean where each value counts `weight(x)` times. `undefined` if the weights sum to 0
+export function weightedMean<T>(arr: ReadonlyArray<T>, value: (x: T) => number, weight: (x: T) => number): number | undefined {
+  const totalWeight = sum(arr, weight)
+  if (arr.length === 0 || totalWeight === 0) return undefined
+  return sum(arr, (x) => value(x) * weight(x)) / totalWeight
+}
+
+export function median<T = number>(arr: ReadonlyArray<T>, pluck: (x: T) => number = identity): number | undefined {
+  return quantile(arr, 0.5, pluck)
+}
+
+/**
+ * @author Antony Lao
+ * @description most frequent values of `arr` (or of the values plucked from it), in order of first appearance
+ * @ex ```mode([1, 2, 2, 3, 3]) // => [2, 3]```
+ * @note returns an array because there can be several modes. The values are compared like in a Map
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function mode<T, R = T>(arr: ReadonlyArray<T>, pluck: (x: T) => R = identity): Array<R> {
+  const counts = new Map<R, number>()
+  arr.forEach((x) => {
+    const value = pluck(x)
+    counts.set(value, (counts.get(value) ?? 0) + 1)
   })
-  return ret
+  const maxCount = Math.max(...Array.from(counts.values()))
+  return Array.from(counts).filter(([, count]) => count === maxCount).map(([value]) => value)
 }
 
 /**
- * @description: creates an object from two arrays: an array of keys, and an array of values.
- *   Takes the array of keys to iterate, so if the `values` array is shorter, undefined are the default 
- *   for the remaining keys
- * @last updated: 25/07/2024; verified: 25/07/2024
+ * @author Antony Lao
+ * @description quantile `q` (between 0 and 1) of `arr` (or of the values plucked from it), 
+ *   with a linear interpolation between the two closest values (like Excel `PERCENTILE.INC` or numpy default)
+ * @ex ```quantile([1, 2, 3, 4], 0.25) // => 1.75```
+ * @note throws a RangeError if `q` is not between 0 and 1
+ * @returns `undefined` for an empty array
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
  */
-export function createObjFrom(keys, values) {
-  return keys.reduce((obj, key, idx) => {
-    obj[key] = values[idx]
-    return obj
-  }, {})
+export function quantile<T = number>(arr: ReadonlyArray<T>, q: number, pluck: (x: T) => number = identity): number | undefined {
+  if (!(q >= 0 && q <= 1)) throw new RangeError(`quantile: q must be between 0 and 1, got ${q}`)
+  if (arr.length === 0) return undefined
+  const sorted = arr.map(pluck).sort((a, b) => a - b)
+  const position = (sorted.length - 1) * q
+  const lowerIdx = Math.floor(position)
+  const upperIdx = Math.ceil(position)
+  return sorted[lowerIdx] + (sorted[upperIdx] - sorted[lowerIdx]) * (position - lowerIdx)
 }
 
-// const myObj = { key: 'a', aName: 'b', price: undefined, quantity: undefined }
-// const newObj = extractKeyFromObj(myObj)
-// console.log("🚀 ~ newObj:", newObj)
+//quantiles for percentages between 0 and 100, e.g. `percentiles(durations, [50, 90, 99])`
+export function percentiles<T = number>(arr: ReadonlyArray<T>, percents: ReadonlyArray<number>, pluck: (x: T) => number = identity): Array<number | undefined> {
+  return percents.map((percent) => quantile(arr, percent / 100, pluck))
+}
 
 /**
- * @description creates an object from an array of objects having each a `key` key
- * @note somewhat specialized function. Maybe later add functionnality with Map and Set? 
- * @param arr : array of objects, each with a `key` key
- * @uses copyOnWrite(I.e immer)
+ * @author Antony Lao
+ * @description variance of `arr` (or of the values plucked from it): population variance by default, 
+ *   sample variance (divided by n - 1) with `sample: true`
+ * @returns `undefined` for an empty array, or for one element with `sample: true`
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
  */
-export function extractKeysFrom(arr: Array<{ key: any }>) {
-  return groupByWithObj(arr, (v) => v.key,
-    (v) => { return copyOnWrite(v, v => { delete v.key }) })
+export function variance<T = number>(arr: ReadonlyArray<T>, pluck: (x: T) => number = identity, { sample = false }: varianceOptions = {}): number | undefined {
+  const stats = runningStats(pluck)
+  arr.forEach((x) => stats.add(x))
+  return stats.variance({ sample })
+}
+
+export function stddev<T = number>(arr: ReadonlyArray<T>, pluck: (x: T) => number = identity, options: varianceOptions = {}): number | undefined {
+  const varianceNum = variance(arr, pluck, options)
+  return varianceNum === undefined ? undefined : Math.sqrt(varianceNum)
+}
+
+//element of `arr` with the smallest plucked value (the first one if several), `undefined` for an empty array
+export function minBy<T>(arr: ReadonlyArray<T>, pluck: (x: T) => any = identity): T | undefined {
+  return arr.reduce((min, x, idx) => idx === 0 || pluck(x) < pluck(min) ? x : min, undefined as T | undefined)
+}
+
+//element of `arr` with the largest plucked value (the first one if several), `undefined` for an empty array
+export function maxBy<T>(arr: ReadonlyArray<T>, pluck: (x: T) => any = identity): T | undefined {
+  return arr.reduce((max, x, idx) => idx === 0 || pluck(x) > pluck(max) ? x : max, undefined as T | undefined)
+}
+
+//[smallest, largest] plucked values, `undefined` for an empty array
+export function extent<T = number>(arr: ReadonlyArray<T>, pluck: (x: T) => number = identity): [number, number] | undefined {
+  if (arr.length === 0) return undefined
+  return [pluck(minBy(arr, pluck)!), pluck(maxBy(arr, pluck)!)]
+}
+
+type RunningStats<T> = {
+  add: (...xs: Array<T>) => RunningStats<T>,
+  readonly count: number,
+  readonly sum: number,
+  readonly mean: number | undefined,
+  readonly min: number | undefined,
+  readonly max: number | undefined,
+  variance: (options?: varianceOptions) => number | undefined,
+  stddev: (options?: varianceOptions) => number | undefined
 }
+
 /**
  * @author Antony Lao
- * @description convert a struct (Map/Set/obj) to array, apply f to the the array, then convert it back to original struct.
- *   permits to leverage Array methods on the struct 
- * @note: doesn't work on literal objects. not mutative
- * @note if struct is not a Map, a Set or an object (literal or custom), RETURN THE ORIGINAL struct 
+ * @description streaming accumulator: the statistics are updated at each `add`, without keeping the values 
+ *   (Welford's algorithm for the variance, numerically stable)
  * @ex 
  * ```
- * withArraySwap(myMap, (arr) => {return <perform operations on array>})
+ * const latency = runningStats<Response>((res) => res.duration)
+ * responses$.subscribe((res) => latency.add(res))
+ * console.log(latency.mean, latency.stddev())
  * ```
- * @param struct
- * @param f : function with the array from struct as a parameter 
- * @returns new struct
- * @last update: 20/07/2024; verified: 20/07/2024; tested: NO (TODO)
+ * @note follows the empty input policy of the statistics: `mean`, `min`, `max`, `variance` and `stddev` are `undefined` without values
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
  */
-export function withArraySwap(struct: Map<unknown, unknown> | Set<unknown> | Record<string | symbol, any>, f: Function) {
-  let arrFromStruct;
-  if (isObject(struct)) {
-    arrFromStruct = Object.entries(struct)
-  } else if (struct instanceof Map || struct instanceof Set) {
-    arrFromStruct = Array.from(struct)
-  } else {
-    return struct
-  }
+export function runningStats<T = number>(pluck: (x: T) => number = identity): RunningStats<T> {
+  let count = 0
+  let total = 0
+  let meanNum = 0
+  let squaredDiffs = 0 //sum of the squared differences to the mean
+  let minNum: number | undefined
+  let maxNum: number | undefined
 
-  let arrTransformed = f(arrFromStruct)
-
-  if (struct instanceof Set) {
-    return new Set(arrTransformed)
-  } else if (struct instanceof Map) {
-    return new Map(arrTransformed)
-  } else if (isObject(struct)) {
-    return Object.fromEntries(arrTransformed)
+  const stats: RunningStats<T> = {
+    add(...xs) {
+      xs.forEach((x) => {
+        const value = pluck(x)
+        count += 1
+        total += value
+        const delta = value - meanNum
+        meanNum += delta / count
+        squaredDiffs += delta * (value - meanNum)
+        if (minNum === undefined || value < minNum) minNum = value
+        if (maxNum === undefined || value > maxNum) maxNum = value
+      })
+      return stats
+    },
+    get count() { return count },
+    get sum() { return total },
+    get mean() { return count === 0 ? undefined : meanNum },
+    get min() { return minNum },
+    get max() { return maxNum },
+    variance({ sample = false } = {}) {
+      const divisor = sample ? count - 1 : count
+      return divisor <= 0 ? undefined : squaredDiffs / divisor
+    },
+    stddev(options) {
+      const varianceNum = stats.variance(options)
+      return varianceNum === undefined ? undefined : Math.sqrt(varianceNum)
+    },
   }
+  return stats
 }
 
-//MANUAL TESTS
-// const myMap = new Map([['a', 1], ["b", 2]])
-// const newMap = withArraySwap(myMap, (arr) => {
-//   return arr.filter(([k, v]) => { return v % 2 === 0 })
-// })
-// // console.log("🚀 ~ newMap ~ newMap:", newMap)
-
-// const myObj = { "a": 1, "b": 2 }
-// const newObj = withArraySwap(myObj, (arr) => {
-//   return arr.filter(([k, v]) => { return v % 2 === 0 })
-// })
-// console.log("🚀 ~ newObj ~ newObj:", newObj)
 /**
  * @author Antony Lao
- * source: https://ebeced.com/blog/ts-best-practices/using-map#utils-javalike-putifabsent
- * modified implementation: doesn't work with keys of map not being a primitive types
- * not mutative
+ * @description rounds `num` to `nbOfFloatDigits` digits after the decimal point, with the rounding `mode` ("half-up" by default).
+ *   A negative `nbOfFloatDigits` rounds to tens, hundreds...: round({ num: 1234, nbOfFloatDigits: -2 }) // => 1200
+ * @ex ```round({ num: 1.005 }) // => 1.01; round({ num: 2.345, mode: "half-even" }) // => 2.34```
+ * @note like `Math.round`, the default "half-up" rounds the ties towards +∞: round({ num: -2.5, nbOfFloatDigits: 0 }) // => -2.
+ *   Use "half-away" to round them away from zero
+ * @note rounds the decimal representation of `num` (with `Decimal`), so 1.005 is rounded like the written value, 
+ *   not like the binary float 1.00499999...
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
  */
-//TODO add a elseFn param to define what to do if the key is present
-export function addToMapIfKeyAbsent<T, K>(mapStruct: Map<T, K>, newKey: T, value: K) {
-
-  const keyExists = Array.from(mapStruct.keys()).find(existingKey => {
-    return existingKey === newKey
-  })
+export function round({ num, nbOfFloatDigits = 2, mode = "half-up" }: roundParams) {
+  if (!isFinite(num)) return num
+  return Decimal.from(num).round(nbOfFloatDigits, mode).toNumber()
+}
 
-  //<arr>.find() returns undefined if there is no match
-  if (keyExists === undefined) {
-    return copyOnWrite(mapStruct, draft => {
-      draft.set(castDraft(newKey), castDraft(value)) //castDraft is a immer function, used to make the Draft type error disappear
+//mean computed with `Decimal`, so that the sum has no floating point errors
+function preciseMean(values: Array<number>): number | undefined {
+  if (values.length === 0) return undefined
+  const total = values.reduce((acc, value) => acc.add(value), Decimal.from(0))
+  return total.div(values.length, { scale: total.scale + 15 }).toNumber()
+}
 
-    })
-  }
+//DECIMAL ARITHMETIC
 
-  return mapStruct
+export type RoundingMode = "half-up" | "half-away" | "half-even" | "floor" | "ceil" | "truncate"
+type DecimalInput = Decimal | string | number | bigint
+type divOptions = {
+  scale?: number,
+  mode?: RoundingMode
 }
 
-//MANUAL TESTS
-// const myMap = new Map([["a", 1]])
-// const myMapModif = addIfKeyAbsent(myMap, "b", 2)
-// console.log("🚀 ~ myMap:", myMap)
-// console.log("🚀 ~ myMapModif:", myMapModif)
+const ZERO = BigInt(0)
+const ONE = BigInt(1)
+const TEN = BigInt(10)
+
+function pow10(exponent: number): bigint {
+  let result = ONE
+  for (let i = 0; i < exponent; i++) result *= TEN
+  return result
+}
 
+//divides with the rounding `mode` applied to the integer quotient
+function divRound(numerator: bigint, denominator: bigint, mode: RoundingMode): bigint {
+  if (denominator < ZERO) return divRound(-numerator, -denominator, mode)
+  const quotient = numerator / denominator //truncated towards 0
+  const remainder = numerator % denominator
+  if (remainder === ZERO) return quotient
+  const sign = numerator < ZERO ? -ONE : ONE
+  const doubledRemainder = (remainder < ZERO ? -remainder : remainder) * BigInt(2)
+  switch (mode) {
+    case "truncate": return quotient
+    case "floor": return sign < ZERO ? quotient - ONE : quotient
+    case "ceil": return sign > ZERO ? quotient + ONE : quotient
+    case "half-up": return doubledRemainder > denominator || (doubledRemainder === denominator && sign > ZERO) ? quotient + sign : quotient
+    case "half-away": return doubledRemainder >= denominator ? quotient + sign : quotient
+    case "half-even": {
+      if (doubledRemainder > denominator) return quotient + sign
+      if (doubledRemainder < denominator) return quotient
+      return quotient % BigInt(2) === ZERO ? quotient : quotient + sign
+    }
+  }
+}
 
 /**
  * @author Antony Lao
- * @description: use with literal object
- * @note use copy-on-write: not mutative
- * @Warning: obj NOT TYPECHECKED
- */
-//TODO add a elseFn param to define what to do if the key is present
-export function addToObjIfKeyAbsent<T>(obj: T, newKey: string | symbol, value: any) {
-  const keyExists = pipe(obj)
-    .to(Object.keys).value
-    .find(existingKey => {
-      return existingKey === newKey
-    })
+ * @description immutable decimal number, without floating point errors: an integer `units` (bigint) and a `scale`, 
+ *   the number of digits after the decimal point. E.g. "12.50" is 1250 units with a scale of 2.
+ *   A negative scale is a number of zeros before the decimal point: 12 units with a scale of -2 is "1200"
+ * @ex 
+ * ```
+ * Decimal.from("0.1").add("0.2").toString() // => "0.3"
+ * Decimal.from("10").div(3, { scale: 2 }).toString() // => "3.33"
+ * Decimal.from("2.345").round(2, "half-even").toString() // => "2.34"
+ * Decimal.from("1250").round(-2).toString() // => "1300"
+ * ```
+ * @note the scale is kept like in Java's BigDecimal: add/sub use the largest scale, mul the sum of the scales,
+ *   div the `scale` option (by default the largest scale of the operands). Numbers are converted from their 
+ *   shortest string representation (0.1 is "0.1", not 0.1000000000000000055...)
+ * @note rounding modes: "half-up" (ties towards +∞, like `Math.round`), "half-away" (ties away from zero), 
+ *   "half-even" (ties to the even digit, banker's rounding), "floor" (towards -∞), "ceil" (towards +∞), "truncate" (towards 0)
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export class Decimal {
+  readonly units: bigint;
+  readonly scale: number;
 
-  //<arr>.find() returns undefined if there is no match
-  if (keyExists === undefined) {
-    return copyOnWrite(obj, draft => {
-      draft[newKey] = value
-    })
+  private constructor(units: bigint, scale: number) {
+    this.units = units
+    this.scale = scale
   }
-  return obj
-}
 
-//MANUAL TESTS
-// type myObjType = {
-//   "a": number
-// }
-// const myObj: myObjType = { "a": 1 }
-// const myObj2 = addToObjIfKeyAbsent(myObj, "b", "b")
-// console.log("🚀 ~ myObj2:", myObj2)
+  //e.g. Decimal.fromUnits(1250n, 2) is 12.50
+  static fromUnits(units: bigint, scale: number): Decimal {
+    return new Decimal(units, scale)
+  }
 
-// export function getIdxFromValue(arr: Array<any>, value) {
-//   let keysArr = range(0, arr.length - 1)
-//     .filter((idx) => { return arr[idx] === value })
+  //throws an Error for an invalid string, NaN or ±Infinity
+  static from(value: DecimalInput): Decimal {
+    if (value instanceof Decimal) return value
+    if (typeof value === "bigint") return new Decimal(value, 0)
+    const str = String(value).trim()
+    const match = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(str)
+    if (match === null || (match[2] + (match[3] ?? "")) === "") throw new Error(`Decimal: invalid number "${str}"`)
+    const [, sign, intDigits, fractionDigits = "", exponentStr = "0"] = match
+    const exponent = Number(exponentStr)
+    let units = BigInt(intDigits + fractionDigits)
+    let scale = fractionDigits.length - exponent
+    if (scale < 0) {
+      units *= pow10(-scale)
+      scale = 0
+    }
+    return new Decimal(sign === "-" ? -units : units, scale)
+  }
 
-//   return new Set(keysArr)
-// }
+  //same value, with `scale` digits after the decimal point (rounded with `mode` if the scale is reduced)
+  round(scale: number, mode: RoundingMode = "half-up"): Decimal {
+    if (scale >= this.scale) return new Decimal(this.units * pow10(scale - this.scale), scale)
+    return new Decimal(divRound(this.units, pow10(this.scale - scale), mode), scale)
+  }
 
-/**
- * @author: Antony Lao
- * @param obj_like : Map or literal object (NOT TYPECHECKED)
- * @param value : value to find the keys from
- * @returns Set of keys
- */
-export function getKeysFromValue(obj_like, value) {
-  let keysArr;
-  if (isObject(obj_like)) {
-    keysArr = Object.keys(obj_like).filter(key => obj_like[key] === value);
+  add(other: DecimalInput): Decimal {
+    const [a, b] = Decimal.aligned(this, Decimal.from(other))
+    return new Decimal(a.units + b.units, a.scale)
   }
-  if (obj_like instanceof Map) {
-    keysArr = pipe(obj_like.keys())
-      .to(Array.from).value
-      .filter(key => obj_like.get(key) === value);
+
+  sub(other: DecimalInput): Decimal {
+    return this.add(Decimal.from(other).negate())
   }
-  return new Set(keysArr)
-}
 
-//-----------------------------------------
-// HELPERS FOR IMMUTABLES (WITH IMMER)
-//------------------------------------------
+  mul(other: DecimalInput): Decimal {
+    const b = Decimal.from(other)
+    return new Decimal(this.units * b.units, this.scale + b.scale)
+  }
 
-/**
- * @author: Antony Lao
- * @description: copy-on-write function, using Immer library
- * @Warning: if you mutate state of other objects inside the changeFn, it will mutate those objects for real!
- * @ex
- * ```
- * let obj = {x:5}; let updatedObj = copyOnWrite(obj, draft => {draft.x = 1})
- * ```
- * @notes inside the fn body, the object is a draft object. 
- *   For debugging, transform the draft to objects, use `current(<draft>)`. 
- *   It is possible to return a new data using `return` in the callback, but ONLY 
- *   if you didn't modify the draft.
- * @param obj : can be any array or plain object, Map or Set.
- *   For object from user-defined classes, add `[immerable] = true` in the class definition
- * @param changeFn : you can use in the function any mutative method on the object, it will not modify it
- * @returns the copy-on-write object
- * @last update: 19/07/2024; verified: 19/07/2024; tested: NO (I trust the Immer library)
- */
-// rewrote function signature to have the correct return types https://github.com/immerjs/immer/issues/787 
-export function copyOnWrite<T>(obj: T, changeFn: (draft: Draft<T>) => Draft<T> | void) {
-  //import { current, enableMapSet, produce } from "immer"
-  enableMapSet()
-  return produce(obj, changeFn);
-}
-
-class ExperimentalCopyOnWrite {
-  //experimental
-  /**
-   * @description
-   * @param obj : a literal object or an array
-   * @param keys array of keys
-   * @param changeFn : function which takes a shallow copy of obj and mutates it
-   *   
-   */
-  static handmadeCopyOnWrite(obj: any, changeFn: Function) {
-    function shallowCopy(obj) {
-      let copy;
-      if (isObject(obj)) {
-        return Object.assign({}, obj)
-      }
-      if (obj instanceof Array) {
-        return obj.slice()
-      }
-    }
+  //throws a RangeError when dividing by 0
+  div(other: DecimalInput, { scale, mode = "half-up" }: divOptions = {}): Decimal {
+    const b = Decimal.from(other)
+    if (b.units === ZERO) throw new RangeError("Decimal: division by zero")
+    const resultScale = scale ?? Math.max(this.scale, b.scale)
+    //units / 10^s1 / (b / 10^s2) = units * 10^(resultScale + s2 - s1) / b / 10^resultScale
+    const shift = resultScale + b.scale - this.scale
+    const numerator = shift >= 0 ? this.units * pow10(shift) : this.units
+    const denominator = shift >= 0 ? b.units : b.units * pow10(-shift)
+    return new Decimal(divRound(numerator, denominator, mode), resultScale)
+  }
 
-    let copy = shallowCopy(obj)
-    changeFn(copy)
-    return copy
+  negate(): Decimal {
+    return new Decimal(-this.units, this.scale)
   }
 
-  /**
-   * @description
-   * @param obj : a literal object or an array
-   * @param key 
-   * @param changeFnOnKey : function should return the new value of obj[key] WITHOUT multating it
-   * @uses handmadeCopyOnWrite
-   */
-  static modifyKey(obj: any, key: any, changeFnOnKey: any) {
-    return this.handmadeCopyOnWrite(obj, (obj) => obj[key] = changeFnOnKey(obj[key]))
-  }
-  /**
-   * @description
-   * @param obj : a literal object or an array
-   * @param keys: array of keys: order is from less to most nested keys 
-   * @param changeFnOnKey : function should return the new value of obj[key] WITHOUT multating it
-   * @uses handmadeCopyOnWrite, modifyKey
-   */
-  static modifyNestedKey(obj: any, keys: Array<any>, changeFnOnKey: any) {
-    if (keys.length === 0) {
-      return changeFnOnKey(obj)
-    }
-    let first_key = keys[0]
-    let remaining_keys = keys.slice(1)
-    return this.modifyKey(obj, first_key, (x) => {
-      return this.modifyNestedKey(x, remaining_keys, changeFnOnKey)
-    })
+  abs(): Decimal {
+    return this.units < ZERO ? this.negate() : this
   }
 
-}
-// const nested_obj = { "nested": "object" }
-// const obj = { "a": nested_obj, "b": 2 }
+  //-1, 0 or 1
+  compare(other: DecimalInput): number {
+    const [a, b] = Decimal.aligned(this, Decimal.from(other))
+    return a.units < b.units ? -1 : a.units > b.units ? 1 : 0
+  }
 
-// const objModified = ExperimentalCopyOnWrite.modifyNestedKey(obj, ["a", "nested"], (x) => "modified")
-// p(obj)
-// p(objModified)
-//-----------------------------------------
-// MATH HELPERS
-//------------------------------------------
+  equals(other: DecimalInput): boolean {
+    return this.compare(other) === 0
+  }
 
-//types used for function signatures
-type roundParams = {
-  num: number,
-  nbOfFloatDigits?: number
-}
+  isZero(): boolean {
+    return this.units === ZERO
+  }
 
-type meanParams = {
-  arr: Array<number>;
-  rounded?: boolean
-  nbOfFloatDigits?: number;
-}
-const sum = (arr) => {
-  return arr.reduce((acc: number, currentValue: number) => {
-    return acc + currentValue
-  })
-}
+  toNumber(): number {
+    return Number(this.toString())
+  }
 
-export const mean = ({ arr, rounded = true, nbOfFloatDigits = 2 }: meanParams) => {
-  if (arr.length === 0) {
-    return 0;
+  //fixed notation, with `scale` digits after the decimal point: Decimal.from("1.50").toString() => "1.50"
+  toString(): string {
+    if (this.scale < 0 && this.units !== ZERO) return this.round(0).toString()
+    const digits = (this.units < ZERO ? -this.units : this.units).toString()
+    const padded = this.scale > 0 && digits.length <= this.scale ? "0".repeat(this.scale - digits.length + 1) + digits : digits
+    const intPart = this.scale > 0 ? padded.slice(0, padded.length - this.scale) : padded
+    const fractionPart = this.scale > 0 ? "." + padded.slice(padded.length - this.scale) : ""
+    return (this.units < ZERO ? "-" : "") + intPart + fractionPart
   }
 
+  toJSON(): string {
+    return this.toString()
+  }
 
-  //this does floating point division because JS doesn't have separation between int/float
-  let meanNum = sum(arr) / arr.length
-  if (rounded) {
-    return round({ num: meanNum, nbOfFloatDigits })
-  } else {
-    return meanNum
+  private static aligned(a: Decimal, b: Decimal): [Decimal, Decimal] {
+    const scale = Math.max(a.scale, b.scale)
+    return [a.round(scale), b.round(scale)]
+  }
+}
+
+/**
+ * @author Antony Lao
+ * @description splits `total` in parts proportional to `ratios`, with `scale` digits (cents by default), 
+ *   so that the parts sum exactly to `total`: the units left after rounding down are given one by one 
+ *   to the parts with the largest remainders (the first parts for equal remainders)
+ * @ex ```allocate("100", [1, 1, 1]).map(String) // => ["33.34", "33.33", "33.33"]```
+ * @note throws a RangeError if a ratio is negative, or if all the ratios are 0
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function allocate(total: DecimalInput, ratios: ReadonlyArray<DecimalInput>, { scale = 2 }: { scale?: number } = {}): Array<Decimal> {
+  const decimalRatios = ratios.map((ratio) => Decimal.from(ratio))
+  if (decimalRatios.some((ratio) => ratio.compare(0) < 0)) throw new RangeError("allocate: the ratios must be positive")
+  //ratios as integers, at a common scale
+  const ratioScale = Math.max(0, ...decimalRatios.map((ratio) => ratio.scale))
+  const weights = decimalRatios.map((ratio) => ratio.round(ratioScale).units)
+  const totalWeight = weights.reduce((acc, weight) => acc + weight, ZERO)
+  if (totalWeight === ZERO) throw new RangeError("allocate: the ratios can't be all 0")
+
+  const totalUnits = Decimal.from(total).round(scale).units
+  const sign = totalUnits < ZERO ? -ONE : ONE
+  const absUnits = totalUnits * sign
+  const shares = weights.map((weight) => absUnits * weight / totalWeight)
+  const remainders = weights.map((weight) => absUnits * weight % totalWeight)
+  let leftover = absUnits - shares.reduce((acc, share) => acc + share, ZERO)
+
+  const byRemainder = remainders
+    .map((remainder, idx) => ({ remainder, idx }))
+    .sort((a, b) => a.remainder > b.remainder ? -1 : a.remainder < b.remainder ? 1 : a.idx - b.idx)
+  for (const { idx } of byRemainder) {
+    if (leftover === ZERO) break
+    shares[idx] += ONE
+    leftover -= ONE
   }
+  return shares.map((share) => Decimal.fromUnits(share * sign, scale))
 }
 
-export function round({ num, nbOfFloatDigits = 2 }: roundParams) {
-  const multiplicator = 10 ** nbOfFloatDigits
-  //Math.round returns an integer
-  return Math.round(num * multiplicator) / multiplicator
+//splits `total` in `nbOfParts` equal parts (up to one unit), which sum exactly to `total`
+export function splitEvenly(total: DecimalInput, nbOfParts: number, options: { scale?: number } = {}): Array<Decimal> {
+  return allocate(total, Array.from({ length: nbOfParts }, () => 1), options)
 }
 
 
@@ -606,18 +4234,21 @@ export function normalizeString(str: string) {
 // DATE & TIME HELPERS (WITH TEMPO)
 //------------------------------------------
 
+//locale used by default by the date and number formatting helpers
+const defaultLocale = "fr"
+
 //time like "13:52:32"
 export function formatTime(timeStr: string) {
-  return format(parse(timeStr, "hh:mm:ss"), { time: "short" }, "fr")
+  return format(parse(timeStr, "hh:mm:ss"), { time: "short" }, defaultLocale)
 }
 
 //str like 2025-03-26T13:53:02.000Z
 export function formatDateTimeFullVersion(date: string | Date): string {
-  return format(date, { date: "full", time: "short" }, "fr")
+  return format(date, { date: "full", time: "short" }, defaultLocale)
 }
 
 export function formatDateTimeShortVersion(date: string | Date): string {
-  return format(date, { date: "short", time: "short" }, "fr")
+  return format(date, { date: "short", time: "short" }, defaultLocale)
 }
 
 // duration is in format "hh:mm:ss"
@@ -635,6 +4266,102 @@ export function getDateAndTimeStruct(strDatetime: string): { date: string, time:
   return { date: dateTimeSplit[0], time: dateTimeSplit[1] }
 }
 
+//-----------------------------------------
+// NUMBER FORMATTING HELPERS (WITH INTL)
+//------------------------------------------
+
+//types used for function signatures
+type formatNumberOptions = Intl.NumberFormatOptions & {
+  locale?: string
+}
+type formatBytesOptions = {
+  locale?: string,
+  maxFractionDigits?: number
+}
+
+const byteUnits = ["byte", "kilobyte", "megabyte", "gigabyte", "terabyte", "petabyte"]
+
+//bidirectional control marks, written around the minus sign by some locales (e.g. "ar-EG")
+const bidiMarks = /[\u061c\u200e\u200f\u202a-\u202e\u2066-\u2069]/g
+
+//Decimals are formatted from their string, so that they are not rounded as floats (supported since Node 19)
+function toFormattable(num: number | bigint | Decimal): number | bigint | string {
+  return num instanceof Decimal ? num.toString() : num
+}
+
+/**
+ * @author Antony Lao
+ * @description formats a number for `locale` ("fr" by default, like the dates), with the options of `Intl.NumberFormat`
+ * @ex ```formatNumber(1234.5) // => "1 234,5" (with a narrow no-break space)```
+ * @note accepts `Decimal`s. Use `parseLocaleNumber` to get the number back
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function formatNumber(num: number | bigint | Decimal, { locale = defaultLocale, ...intlOptions }: formatNumberOptions = {}): string {
+  //the typings of the lib don't include the numeric strings yet
+  const numberFormat: { format: (num: number | bigint | string) => string } = new Intl.NumberFormat(locale, intlOptions)
+  return numberFormat.format(toFormattable(num))
+}
+
+//e.g. formatCurrency(1234.5) => "1 234,50 €". `currency` is an ISO 4217 code
+export function formatCurrency(amount: number | bigint | Decimal, currency = "EUR", options: formatNumberOptions = {}): string {
+  return formatNumber(amount, { style: "currency", currency, ...options })
+}
+
+//`ratio` is 1 for 100%: formatPercent(0.256) => "25,6 %"
+export function formatPercent(ratio: number | Decimal, options: formatNumberOptions = {}): string {
+  return formatNumber(ratio, { style: "percent", maximumFractionDigits: 1, ...options })
+}
+
+//short notation of large numbers: formatCompact(1234567) => "1,2 M"
+export function formatCompact(num: number | bigint | Decimal, options: formatNumberOptions = {}): string {
+  return formatNumber(num, { notation: "compact", ...options })
+}
+
+/**
+ * @author Antony Lao
+ * @description formats a size in bytes with the largest fitting unit, localized: 1536 => "1,5 ko" in French, "1.5 kB" in English
+ * @note uses the SI units (1 kB = 1000 bytes), like `Intl`. The unit is chosen after rounding to `maxFractionDigits`:
+ *   999 950 bytes is "1 Mo", not "1 000 ko"
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function formatBytes(bytes: number, { locale = defaultLocale, maxFractionDigits = 1 }: formatBytesOptions = {}): string {
+  let unitIdx = 0
+  let value = bytes
+  //rounded like `Intl` does by default (ties away from zero)
+  while (Math.abs(round({ num: value, nbOfFloatDigits: maxFractionDigits, mode: "half-away" })) >= 1000 && unitIdx < byteUnits.length - 1) {
+    value /= 1000
+    unitIdx += 1
+  }
+  return formatNumber(value, { locale, style: "unit", unit: byteUnits[unitIdx], maximumFractionDigits: maxFractionDigits })
+}
+
+/**
+ * @author Antony Lao
+ * @description inverse of `formatNumber`: parses a number written for `locale` ("fr" by default)
+ * @ex ```parseLocaleNumber("1 234,5") // => 1234.5; parseLocaleNumber("1,234.5", "en") // => 1234.5```
+ * @note the thousand separators of the locale, bidirectional marks and any space (including the no-break and narrow 
+ *   no-break spaces) are ignored. The digits of the locale's numbering system (e.g. Arabic-Indic digits for "ar-EG") 
+ *   are read too. The percent and currency signs are not handled
+ * @returns NaN if `str` is not a number, like `Number`
+ * @last update: 19/10/2026; verified: 19/10/2026; tested: YES
+ */
+export function parseLocaleNumber(str: string, locale = defaultLocale): number {
+  const parts = new Intl.NumberFormat(locale).formatToParts(-12345.6)
+  const separatorOf = (type: string) => parts.find((part) => part.type === type)?.value
+  const group = separatorOf("group")
+  const decimal = separatorOf("decimal") ?? "."
+  const minusSign = separatorOf("minusSign") ?? "-"
+  //from 0 to 9
+  const digits = Array.from(new Intl.NumberFormat(locale, { useGrouping: false }).format(9876543210)).reverse()
+
+  let normalized = str.replace(bidiMarks, "").replace(/[\s\u00a0\u202f]/g, "")
+  normalized = Array.from(normalized, (char) => digits.indexOf(char) === -1 ? char : String(digits.indexOf(char))).join("")
+  if (group !== undefined && !/^\s$/.test(group)) normalized = normalized.split(group).join("")
+  normalized = normalized.split(decimal).join(".").split(minusSign).join("-").replace(/\u2212/g, "-")
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(normalized)) return NaN
+  return Number(normalized)
+}
+
 //-----------------------------------------
 // DEBUG TOOLS
 //------------------------------------------